@@ -0,0 +1,345 @@
+// GitHub device flow sign-in and token refresh for NeetSync
+
+import type {
+  DeviceFlowExchange,
+  DeviceCodeResponse,
+  DeviceTokenPoll,
+  OAuthToken,
+  PendingDeviceFlow,
+  Settings,
+  TokenMeta,
+} from './types';
+import {
+  getSettings,
+  saveToken,
+  getTokenMeta,
+  saveTokenMeta,
+  getPendingDeviceFlow,
+  savePendingDeviceFlow,
+} from './storage';
+import { getApiBase, getWebBase } from './github';
+import { AuthError, NetworkError, errorFromResponse, isTransient } from './errors';
+import { logger } from './logger';
+
+const GITHUB_WEB_BASE = 'https://github.com';
+const DEVICE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+const REFRESH_MARGIN = 10 * 60000; // Refresh 10 minutes before expiry
+const REFRESH_RETRY_DELAY = 60000; // 1 minute, doubling after each failure
+const MAX_REFRESH_RETRY_DELAY = 30 * 60000; // 30 minutes
+
+export const DEVICE_FLOW_ALARM = 'pollDeviceFlow';
+export const TOKEN_REFRESH_ALARM = 'refreshToken';
+
+/**
+ * Convert a token endpoint response, with relative expiries, to an OAuthToken
+ */
+function toOAuthToken(data: Record<string, unknown>): OAuthToken {
+  const now = Date.now();
+  const seconds = (value: unknown) => (typeof value === 'number' ? now + value * 1000 : undefined);
+  
+  return {
+    accessToken: data.access_token as string,
+    scope: (data.scope as string) || undefined,
+    expiresAt: seconds(data.expires_in),
+    refreshToken: (data.refresh_token as string) || undefined,
+    refreshTokenExpiresAt: seconds(data.refresh_token_expires_in),
+  };
+}
+
+/**
+ * Device flow against github.com (or any server speaking the same protocol)
+ */
+export class GitHubDeviceFlowExchange implements DeviceFlowExchange {
+  private baseUrl: string;
+  
+  constructor(baseUrl = GITHUB_WEB_BASE) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+  
+  private async post(path: string, params: Record<string, string>): Promise<Record<string, unknown>> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams(params).toString(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new NetworkError(`GitHub sign-in request failed: ${message}`);
+    }
+    
+    if (!response.ok) {
+      throw errorFromResponse(response.status, await response.text());
+    }
+    return response.json();
+  }
+  
+  async requestDeviceCode(clientId: string): Promise<DeviceCodeResponse> {
+    const data = await this.post('/login/device/code', { client_id: clientId });
+    if (data.error) {
+      throw new AuthError(`GitHub sign-in failed: ${data.error_description || data.error}`);
+    }
+    
+    return {
+      deviceCode: data.device_code as string,
+      userCode: data.user_code as string,
+      verificationUri: data.verification_uri as string,
+      expiresIn: data.expires_in as number,
+      interval: data.interval as number,
+    };
+  }
+  
+  async pollToken(clientId: string, deviceCode: string): Promise<DeviceTokenPoll> {
+    const data = await this.post('/login/oauth/access_token', {
+      client_id: clientId,
+      device_code: deviceCode,
+      grant_type: DEVICE_GRANT_TYPE,
+    });
+    
+    switch (data.error) {
+      case undefined:
+        return { status: 'token', token: toOAuthToken(data) };
+      case 'authorization_pending':
+        return { status: 'pending' };
+      case 'slow_down':
+        return { status: 'slow_down', interval: data.interval as number };
+      case 'access_denied':
+        return { status: 'denied' };
+      case 'expired_token':
+        return { status: 'expired' };
+      default:
+        throw new AuthError(`GitHub sign-in failed: ${data.error_description || data.error}`);
+    }
+  }
+  
+  async refreshToken(clientId: string, refreshToken: string): Promise<OAuthToken> {
+    const data = await this.post('/login/oauth/access_token', {
+      client_id: clientId,
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    });
+    if (data.error) {
+      throw new AuthError(`GitHub token refresh failed: ${data.error_description || data.error}`);
+    }
+    return toOAuthToken(data);
+  }
+}
+
+/**
+ * Device flow runs on the web host matching the configured API (GHES or github.com)
+ */
+function getExchange(settings: Settings): DeviceFlowExchange {
+  return new GitHubDeviceFlowExchange(getWebBase(getApiBase(settings)));
+}
+
+/**
+ * Metadata stored next to a device flow token
+ */
+export function tokenMetaFrom(token: OAuthToken): TokenMeta {
+  return {
+    method: 'device',
+    obtainedAt: Date.now(),
+    scope: token.scope,
+    expiresAt: token.expiresAt,
+    refreshToken: token.refreshToken,
+    refreshTokenExpiresAt: token.refreshTokenExpiresAt,
+  };
+}
+
+// Whether this service worker instance is already polling, and which
+// flow it is polling for so a restarted flow stops the old loop
+let polling = false;
+let generation = 0;
+
+/**
+ * Finish a device flow, successful or not
+ */
+async function endDeviceFlow(): Promise<void> {
+  polling = false;
+  generation++;
+  await savePendingDeviceFlow(null);
+  await chrome.alarms.clear(DEVICE_FLOW_ALARM);
+}
+
+/**
+ * Ask GitHub for a user code and start polling for the token.
+ * `onToken` receives the token once the user approves.
+ */
+export async function startDeviceFlow(
+  onToken: (token: OAuthToken) => Promise<void>
+): Promise<{ success: boolean; flow?: PendingDeviceFlow; error?: string }> {
+  const settings = await getSettings();
+  if (!settings.oauthClientId) {
+    return { success: false, error: 'Set a GitHub OAuth client ID in Options first' };
+  }
+  
+  try {
+    const code = await getExchange(settings).requestDeviceCode(settings.oauthClientId);
+    const flow: PendingDeviceFlow = {
+      deviceCode: code.deviceCode,
+      userCode: code.userCode,
+      verificationUri: code.verificationUri,
+      expiresAt: Date.now() + code.expiresIn * 1000,
+      interval: code.interval,
+    };
+    await savePendingDeviceFlow(flow);
+    
+    // The alarm picks polling back up if the service worker is stopped
+    chrome.alarms.create(DEVICE_FLOW_ALARM, { periodInMinutes: 0.5 });
+    polling = true;
+    const current = ++generation;
+    setTimeout(() => pollDeviceFlow(onToken, current), flow.interval * 1000);
+    
+    await logger.info(`GitHub sign-in started, enter code ${flow.userCode} at ${flow.verificationUri}`);
+    return { success: true, flow };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await logger.error('Failed to start GitHub sign-in', message);
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Stop waiting for the user to approve the sign-in
+ */
+export async function cancelDeviceFlow(): Promise<{ success: boolean }> {
+  await endDeviceFlow();
+  await logger.info('GitHub sign-in cancelled');
+  return { success: true };
+}
+
+/**
+ * Resume polling after the service worker restarted (driven by the alarm)
+ */
+export async function resumeDeviceFlow(onToken: (token: OAuthToken) => Promise<void>): Promise<void> {
+  if (!polling) {
+    polling = true;
+    await pollDeviceFlow(onToken, generation);
+  }
+}
+
+/**
+ * Poll once, then schedule the next poll until the flow ends
+ */
+async function pollDeviceFlow(
+  onToken: (token: OAuthToken) => Promise<void>,
+  current: number
+): Promise<void> {
+  if (current !== generation) {
+    return;
+  }
+  
+  const flow = await getPendingDeviceFlow();
+  if (!flow) {
+    await endDeviceFlow();
+    return;
+  }
+  
+  if (Date.now() >= flow.expiresAt) {
+    await endDeviceFlow();
+    await logger.warn('GitHub sign-in code expired, start again from the popup');
+    return;
+  }
+  
+  const next = (seconds: number) => setTimeout(() => pollDeviceFlow(onToken, current), seconds * 1000);
+  const settings = await getSettings();
+  
+  let result: DeviceTokenPoll;
+  try {
+    result = await getExchange(settings).pollToken(settings.oauthClientId, flow.deviceCode);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (isTransient(error)) {
+      next(flow.interval);
+      return;
+    }
+    await endDeviceFlow();
+    await logger.error('GitHub sign-in failed', message);
+    return;
+  }
+  
+  switch (result.status) {
+    case 'pending':
+      next(flow.interval);
+      return;
+    case 'slow_down':
+      await savePendingDeviceFlow({ ...flow, interval: result.interval });
+      next(result.interval);
+      return;
+    case 'denied':
+      await endDeviceFlow();
+      await logger.warn('GitHub sign-in was denied');
+      return;
+    case 'expired':
+      await endDeviceFlow();
+      await logger.warn('GitHub sign-in code expired, start again from the popup');
+      return;
+    case 'token':
+      await endDeviceFlow();
+      await onToken(result.token);
+      return;
+  }
+}
+
+/**
+ * Set (or clear) the alarm that refreshes an expiring token ahead of time
+ */
+export function scheduleTokenRefresh(meta: TokenMeta | null): void {
+  if (meta?.refreshToken && meta.expiresAt) {
+    chrome.alarms.create(TOKEN_REFRESH_ALARM, {
+      when: Math.max(Date.now() + 1000, meta.expiresAt - REFRESH_MARGIN),
+    });
+  } else {
+    chrome.alarms.clear(TOKEN_REFRESH_ALARM);
+  }
+}
+
+/**
+ * Refresh a device flow token that is about to expire.
+ * Returns true if a new token was saved. Network and server errors schedule
+ * another try with backoff; anything else throws.
+ */
+export async function refreshTokenIfNeeded(): Promise<boolean> {
+  const meta = await getTokenMeta();
+  if (!meta?.refreshToken || !meta.expiresAt) {
+    return false;
+  }
+  
+  if (meta.expiresAt - Date.now() > REFRESH_MARGIN) {
+    scheduleTokenRefresh(meta);
+    return false;
+  }
+  
+  if (meta.refreshTokenExpiresAt && meta.refreshTokenExpiresAt <= Date.now()) {
+    await logger.warn('GitHub sign-in has expired, sign in again from the popup');
+    return false;
+  }
+  
+  const settings = await getSettings();
+  let token: OAuthToken;
+  try {
+    token = await getExchange(settings).refreshToken(settings.oauthClientId, meta.refreshToken);
+  } catch (error) {
+    if (!isTransient(error)) {
+      throw error;
+    }
+    const failures = (meta.refreshFailures || 0) + 1;
+    const retryAt = Date.now() + Math.min(REFRESH_RETRY_DELAY * Math.pow(2, failures - 1), MAX_REFRESH_RETRY_DELAY);
+    await saveTokenMeta({ ...meta, refreshFailures: failures });
+    chrome.alarms.create(TOKEN_REFRESH_ALARM, { when: retryAt });
+    
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await logger.warn(`Could not refresh GitHub token, trying again at ${new Date(retryAt).toLocaleTimeString()}`, message);
+    return false;
+  }
+  const refreshed = tokenMetaFrom(token);
+  
+  await saveToken(token.accessToken, refreshed);
+  scheduleTokenRefresh(refreshed);
+  await logger.info('GitHub token refreshed');
+  return true;
+}
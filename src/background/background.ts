@@ -1,6 +1,20 @@
 // Background service worker for NeetSync
 
-import type { MessageType, Settings, SubmissionPayload, MappingMergePayload } from './types';
+import type {
+  MessageType,
+  Settings,
+  SubmissionPayload,
+  MappingMergePayload,
+  FailedItem,
+  BootstrapResult,
+  GitProvider,
+  TokenMeta,
+  OAuthToken,
+  LocalFolderStatus,
+  RoutedSolve,
+  RoutingPreviewPayload,
+  CommitMessageTemplates,
+} from './types';
 import {
   getSettings,
   saveSettings,
@@ -11,11 +25,61 @@ import {
   getProgress,
   getQueue,
   getLastSync,
+  releaseHeldItems,
+  clearProgressImportedFrom,
+  getTokenExpiration,
+  saveTokenExpiration,
+  getTokenMeta,
+  getPendingDeviceFlow,
+  getFailedItems,
+  requeueFailedItem,
+  discardFailedItem,
 } from './storage';
 import { logger } from './logger';
-import { enqueueSubmission, processQueue, isQueueProcessing } from './queue';
-import { syncProgressFiles } from './progress';
-import { GitHubClient } from './github';
+import {
+  enqueueSubmission,
+  processQueue,
+  isQueueProcessing,
+  scheduleQueueAlarm,
+  scheduleBatchAlarm,
+  openBatchWindow,
+  getTargetPath,
+  QUEUE_ALARM,
+  BATCH_ALARM,
+} from './queue';
+import {
+  syncProgressFiles,
+  importRemoteProgress,
+  ensureRemoteProgressImported,
+  buildInitialFiles,
+} from './progress';
+import { createProvider, getProviderApiBase, getTargetKey, getTargetName, isSyncConfigured } from './provider';
+import { getFolderStatus } from './folder';
+import { PRIMARY_TARGET_ID, describeTarget, getSyncTargets, routeSolve, settingsForTarget } from './targets';
+import {
+  BATCH_MESSAGE_TOKENS,
+  MESSAGE_TOKENS,
+  PROGRESS_MESSAGE_TOKENS,
+  buildFilePath,
+  normalizeDifficulty,
+  renderMessageTemplate,
+  slugToTitle,
+  validateMessageTemplate,
+  validatePathTemplate,
+} from './normalize';
+import { planReorganize, applyReorganize, reorganizeNewlySorted } from './reorganize';
+import { rebuildProgressFromHistory } from './history';
+import { runDiagnostics, checkTokenExpiry, TOKEN_EXPIRY_ALARM } from './diagnostics';
+import {
+  startDeviceFlow,
+  cancelDeviceFlow,
+  resumeDeviceFlow,
+  refreshTokenIfNeeded,
+  scheduleTokenRefresh,
+  tokenMetaFrom,
+  DEVICE_FLOW_ALARM,
+  TOKEN_REFRESH_ALARM,
+} from './auth';
 
 // Initialize
 console.log('[NeetSync] Background service worker started');
@@ -76,6 +140,48 @@ async function handleMessage(
     case 'NEETSYNC_PROCESS_QUEUE':
       return handleProcessQueue();
     
+    case 'NEETSYNC_PREVIEW_PATH_TEMPLATE':
+      return handlePreviewPathTemplate(message.payload);
+    
+    case 'NEETSYNC_PREVIEW_ROUTING':
+      return handlePreviewRouting(message.payload);
+    
+    case 'NEETSYNC_PREVIEW_COMMIT_MESSAGES':
+      return handlePreviewCommitMessages(message.payload);
+    
+    case 'NEETSYNC_IMPORT_PROGRESS':
+      return handleImportProgress();
+    
+    case 'NEETSYNC_REBUILD_FROM_HISTORY':
+      return handleRebuildFromHistory();
+    
+    case 'NEETSYNC_RUN_DIAGNOSTICS':
+      return runDiagnostics();
+    
+    case 'NEETSYNC_DEVICE_FLOW_START':
+      return startDeviceFlow(handleDeviceToken);
+    
+    case 'NEETSYNC_DEVICE_FLOW_CANCEL':
+      return cancelDeviceFlow();
+    
+    case 'NEETSYNC_FOLDER_GRANTED':
+      return handleFolderGranted(message.payload);
+    
+    case 'NEETSYNC_REORGANIZE_PLAN':
+      return planReorganize();
+    
+    case 'NEETSYNC_REORGANIZE_APPLY':
+      return applyReorganize(undefined, message.payload.headSha);
+    
+    case 'NEETSYNC_GET_FAILED':
+      return handleGetFailed();
+    
+    case 'NEETSYNC_RETRY_FAILED':
+      return handleRetryFailed(message.payload);
+    
+    case 'NEETSYNC_DISCARD_FAILED':
+      return handleDiscardFailed(message.payload);
+    
     default:
       return { success: false, error: 'Unknown message type' };
   }
@@ -116,13 +222,14 @@ async function handleMappingMerge(
     return { success: true, count: 0 };
   }
   
-  const transformedEntries: Record<string, { title?: string; category?: string; listName?: string; difficulty?: string; sourceUrl: string }> = {};
+  const transformedEntries: Record<string, { title?: string; category?: string; listName?: string; listIndex?: number; difficulty?: string; sourceUrl: string }> = {};
   
   for (const [slug, entry] of Object.entries(payload.entries)) {
     transformedEntries[slug] = {
       title: entry.title,
       category: entry.category,
       listName: entry.listName,
+      listIndex: entry.listIndex,
       difficulty: entry.difficulty,
       sourceUrl: entry.sourceUrl,
     };
@@ -131,41 +238,177 @@ async function handleMappingMerge(
   await mergeMapping(transformedEntries);
   await logger.info(`Mapping updated: ${entriesCount} entries merged`);
   
+  // Newly learned categories may let Unsorted solutions move to their folder
+  reorganizeNewlySorted().catch(console.error);
+  
   return { success: true, count: entriesCount };
 }
 
 async function handleSaveSettings(
   settings: Partial<Settings>
-): Promise<{ success: boolean; settings: Settings }> {
+): Promise<{ success: boolean; settings?: Settings; error?: string }> {
+  const previous = await getSettings();
+  
+  // Gitea and Forgejo are always self-hosted
+  if ((settings.provider || previous.provider) === 'GITEA' && !(settings.apiBaseUrl ?? previous.apiBaseUrl)) {
+    return { success: false, error: 'Enter your Gitea server URL' };
+  }
+  
+  if (settings.apiBaseUrl) {
+    try {
+      new URL(getProviderApiBase({
+        provider: settings.provider || previous.provider,
+        apiBaseUrl: settings.apiBaseUrl,
+      }));
+    } catch {
+      return { success: false, error: `Invalid API base URL: ${settings.apiBaseUrl}` };
+    }
+  }
+  
+  if (settings.organizationMode === 'TEMPLATE' && settings.pathTemplate !== undefined) {
+    const errors = validatePathTemplate(settings.pathTemplate);
+    if (errors.length > 0) {
+      return { success: false, error: `Invalid path template: ${errors.join(', ')}` };
+    }
+  }
+  
+  for (const target of settings.targets || []) {
+    if (!target.repoFullName.includes('/')) {
+      return { success: false, error: `Mirror repository must be in format owner/repo: ${target.repoFullName}` };
+    }
+    const errors = target.pathTemplate ? validatePathTemplate(target.pathTemplate) : [];
+    if (errors.length > 0) {
+      return { success: false, error: `Invalid path template for ${target.repoFullName}: ${errors.join(', ')}` };
+    }
+  }
+  
+  if (settings.batchIntervalMinutes !== undefined &&
+    (!Number.isInteger(settings.batchIntervalMinutes) || settings.batchIntervalMinutes < 1)) {
+    return { success: false, error: 'Batch interval must be a whole number of minutes' };
+  }
+  if (settings.batchDailyTime !== undefined && !/^([01]\d|2[0-3]):[0-5]\d$/.test(settings.batchDailyTime)) {
+    return { success: false, error: `Invalid batch time: ${settings.batchDailyTime}` };
+  }
+  
+  const templateErrors = validateCommitTemplates(settings);
+  if (templateErrors.length > 0) {
+    return { success: false, error: `Invalid commit message template: ${templateErrors.join(', ')}` };
+  }
+  
+  const targetIds = new Set([PRIMARY_TARGET_ID, ...(settings.targets ?? previous.targets).map((target) => target.id)]);
+  for (const [index, rule] of (settings.routingRules || []).entries()) {
+    if (rule.targets.length === 0) {
+      return { success: false, error: `Routing rule ${index + 1} doesn't send solves anywhere` };
+    }
+    if (rule.targets.some((id) => !targetIds.has(id))) {
+      return { success: false, error: `Routing rule ${index + 1} names a mirror that no longer exists` };
+    }
+  }
+  
   const updated = await saveSettings(settings);
   await logger.info('Settings saved');
+  
+  const batchChanged =
+    updated.batchMode !== previous.batchMode ||
+    updated.batchIntervalMinutes !== previous.batchIntervalMinutes ||
+    updated.batchDailyTime !== previous.batchDailyTime;
+  if (batchChanged) {
+    await scheduleBatchAlarm(updated, true);
+    // Solves held back for a window go out now that batching is off
+    if (updated.batchMode === 'IMMEDIATE') {
+      processQueue().catch(console.error);
+    }
+  }
+  
+  // A new host, repo or branch may need setting up before progress can be read from it
+  const token = await getToken();
+  const targetChanged = getTargetKey(updated) !== getTargetKey(previous);
+  if (isSyncConfigured(updated, token) && targetChanged) {
+    setupRepository(createProvider(token, updated), updated)
+      .then(async (result) => {
+        if (!result.valid) {
+          await logger.warn(`Could not set up ${getTargetName(updated)}`, result.error);
+          return;
+        }
+        await restoreRemoteProgress();
+      })
+      .catch(console.error);
+  } else {
+    restoreRemoteProgress().catch(console.error);
+  }
+  
+  // Newly added mirrors get the same setup as the main repository
+  const known = new Set(previous.targets.map(describeTarget));
+  for (const target of getSyncTargets(updated)) {
+    if (target.id === PRIMARY_TARGET_ID || known.has(describeTarget(target)) || !token) {
+      continue;
+    }
+    const targetSettings = settingsForTarget(updated, target);
+    setupRepository(createProvider(token, targetSettings), targetSettings)
+      .then(async (result) => {
+        if (!result.valid) {
+          await logger.warn(`Could not set up mirror ${describeTarget(target)}`, result.error);
+        }
+      })
+      .catch(console.error);
+  }
+  
   return { success: true, settings: updated };
 }
 
 async function handleSaveToken(
   payload: { token: string }
 ): Promise<{ success: boolean; valid?: boolean; error?: string }> {
-  const { token } = payload;
-  
+  return activateToken(payload.token);
+}
+
+/**
+ * Validate and save a token, pasted or from the device flow,
+ * then resume anything that was waiting for one
+ */
+async function activateToken(
+  token: string,
+  meta?: TokenMeta
+): Promise<{ success: boolean; valid?: boolean; error?: string }> {
   // Validate token if repo is configured
   const settings = await getSettings();
   
+  let expiresAt: number | null = null;
   if (settings.repoFullName) {
-    const client = new GitHubClient(token, settings.repoFullName);
-    const result = await client.verifyAccess();
+    const provider = createProvider(token, settings);
+    const result = await setupRepository(provider, settings);
     
     if (!result.valid) {
       await logger.error('Token validation failed', result.error);
       return { success: false, valid: false, error: result.error };
     }
+    expiresAt = provider.tokenExpiresAt ?? null;
   }
   
-  await saveToken(token);
-  await logger.success('GitHub token saved');
+  await saveToken(token, meta);
+  await saveTokenExpiration(expiresAt);
+  scheduleTokenRefresh(meta || null);
+  await logger.success(meta?.method === 'device' ? 'Signed in with GitHub' : 'Token saved');
+  
+  restoreRemoteProgress().catch(console.error);
+  
+  // Items held because of the old token can go out now
+  const released = await releaseHeldItems('auth');
+  if (released > 0) {
+    await logger.info(`Released ${released} held items`);
+    processQueue().catch(console.error);
+  }
   
   return { success: true, valid: true };
 }
 
+/**
+ * Token from an approved device flow sign-in
+ */
+async function handleDeviceToken(token: OAuthToken): Promise<void> {
+  await activateToken(token.accessToken, tokenMetaFrom(token));
+}
+
 async function handleRefreshMapping(): Promise<{ success: boolean }> {
   try {
     const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
@@ -190,19 +433,137 @@ async function handleSyncProgressNow(): Promise<{ success: boolean; error?: stri
   const token = await getToken();
   const settings = await getSettings();
   
-  if (!token || !settings.repoFullName) {
-    await logger.warn('GitHub not configured');
-    return { success: false, error: 'GitHub not configured' };
+  if (!isSyncConfigured(settings, token)) {
+    await logger.warn('Repository not configured');
+    return { success: false, error: 'Repository not configured' };
   }
   
-  const progress = await getProgress();
   const mapping = await getMapping();
   
-  const result = await syncProgressFiles(token, settings, progress, mapping);
+  const result = await syncProgressFiles(token, settings, mapping);
+  
+  return result;
+}
+
+async function handleImportProgress(): Promise<{
+  success: boolean;
+  imported?: number;
+  total?: number;
+  error?: string;
+}> {
+  const token = await getToken();
+  const settings = await getSettings();
+  
+  if (!isSyncConfigured(settings, token)) {
+    return { success: false, error: 'Repository not configured' };
+  }
+  
+  try {
+    const result = await importRemoteProgress(createProvider(token, settings), settings);
+    await logger.success(
+      `Imported progress from ${getTargetName(settings)}`,
+      `${result.imported} remote entries, ${result.total} total`
+    );
+    return { success: true, ...result };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await logger.error('Failed to import progress', message);
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Rebuild progress from history; items held on an unreadable PROGRESS.json
+ * can go out once it has been replaced
+ */
+async function handleRebuildFromHistory(): Promise<{
+  success: boolean;
+  solved?: number;
+  commits?: number;
+  error?: string;
+}> {
+  const result = await rebuildProgressFromHistory();
+  if (result.success) {
+    const released = await releaseHeldItems('progress');
+    if (released > 0) {
+      await logger.info(`Released ${released} held items`);
+      processQueue().catch(console.error);
+    }
+  }
+  return result;
+}
+
+/**
+ * Merge remote progress as soon as a repo and token are both configured
+ */
+async function restoreRemoteProgress(): Promise<void> {
+  const token = await getToken();
+  const settings = await getSettings();
+  
+  if (!isSyncConfigured(settings, token)) {
+    return;
+  }
   
+  try {
+    await ensureRemoteProgressImported(createProvider(token, settings), settings);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await logger.warn('Could not read PROGRESS.json from the repo yet', message);
+  }
+}
+
+/**
+ * Verify access and create whatever the repository is missing
+ */
+async function setupRepository(provider: GitProvider, settings: Settings): Promise<BootstrapResult> {
+  const result = await provider.verifyAccess({
+    branch: settings.branch,
+    createRepository: settings.createRepository,
+    initialFiles: buildInitialFiles(settings),
+  });
+  
+  if (result.created.length > 0) {
+    await logger.success(`Set up ${getTargetName(settings)}`, `Created ${result.created.join(', ')}`);
+  }
   return result;
 }
 
+/**
+ * The options page picked a folder or granted access again. A new folder is
+ * a new target: set it up and read its progress before anything is written.
+ */
+async function handleFolderGranted(
+  payload: { changed: boolean }
+): Promise<{ success: boolean; error?: string }> {
+  const settings = await getSettings();
+  
+  // Picked before switching the provider; saving the options sets it up
+  if (settings.provider !== 'LOCAL') {
+    return { success: true };
+  }
+  
+  if (payload.changed) {
+    await clearProgressImportedFrom();
+    const result = await setupRepository(createProvider(null, settings), settings);
+    if (!result.valid) {
+      await logger.warn('Could not set up the local folder', result.error);
+      return { success: false, error: result.error };
+    }
+  }
+  
+  await logger.success('Folder access granted');
+  await restoreRemoteProgress();
+  
+  // Items held while access had lapsed can go out now
+  const released = await releaseHeldItems('folder');
+  if (released > 0) {
+    await logger.info(`Released ${released} held items`);
+  }
+  processQueue().catch(console.error);
+  
+  return { success: true };
+}
+
 async function handleGetState(): Promise<{
   settings: Settings;
   hasToken: boolean;
@@ -210,7 +571,13 @@ async function handleGetState(): Promise<{
   mappingUpdatedAt: number;
   solvedCount: number;
   queueCount: number;
+  failedCount: number;
   lastSync: number | null;
+  nextBatchAt: number | null;
+  folder: LocalFolderStatus | null;
+  tokenExpiresAt: number | null;
+  authMethod: TokenMeta['method'] | null;
+  deviceFlow: { userCode: string; verificationUri: string; expiresAt: number } | null;
   isProcessing: boolean;
   logs: unknown[];
 }> {
@@ -219,7 +586,10 @@ async function handleGetState(): Promise<{
   const mapping = await getMapping();
   const progress = await getProgress();
   const queue = await getQueue();
+  const failed = await getFailedItems();
   const lastSync = await getLastSync();
+  const tokenMeta = await getTokenMeta();
+  const deviceFlow = await getPendingDeviceFlow();
   const logs = await logger.getLogs();
   
   return {
@@ -229,8 +599,21 @@ async function handleGetState(): Promise<{
     mappingUpdatedAt: mapping.updatedAt,
     solvedCount: Object.keys(progress.solved).length,
     queueCount: queue.length,
+    failedCount: failed.length,
     lastSync,
-    isProcessing: isQueueProcessing(),
+    nextBatchAt: settings.batchMode === 'IMMEDIATE'
+      ? null
+      : (await chrome.alarms.get(BATCH_ALARM))?.scheduledTime ?? null,
+    folder: settings.provider === 'LOCAL' ? await getFolderStatus() : null,
+    // Refreshable tokens renew themselves, so there's nothing to warn about
+    tokenExpiresAt: token && !tokenMeta?.refreshToken ? await getTokenExpiration() : null,
+    authMethod: token ? tokenMeta?.method || 'pat' : null,
+    deviceFlow: deviceFlow && {
+      userCode: deviceFlow.userCode,
+      verificationUri: deviceFlow.verificationUri,
+      expiresAt: deviceFlow.expiresAt,
+    },
+    isProcessing: await isQueueProcessing(),
     logs: logs.slice(0, 50), // Last 50 logs
   };
 }
@@ -241,24 +624,226 @@ async function handleClearLogs(): Promise<{ success: boolean }> {
 }
 
 async function handleProcessQueue(): Promise<{ success: boolean }> {
-  await processQueue();
+  // Asking for a sync sends everything queued, without waiting for the batch window
+  await openBatchWindow();
   return { success: true };
 }
 
+/**
+ * Check commit message templates; problems are prefixed with the template they're in
+ */
+function validateCommitTemplates(templates: Partial<CommitMessageTemplates>): string[] {
+  const checks: Array<[string, string | undefined, readonly string[]]> = [
+    ['Solve message', templates.commitMessageTemplate, MESSAGE_TOKENS],
+    ['Batch message', templates.batchCommitTemplate, BATCH_MESSAGE_TOKENS],
+    ['Progress message', templates.progressCommitTemplate, PROGRESS_MESSAGE_TOKENS],
+  ];
+  return checks.flatMap(([label, template, tokens]) =>
+    template === undefined ? [] : validateMessageTemplate(template, tokens).map((error) => `${label}: ${error}`)
+  );
+}
+
+/**
+ * Render commit message templates for a sample solve, batch and progress update
+ */
+async function handlePreviewCommitMessages(
+  payload: CommitMessageTemplates
+): Promise<{ success: boolean; errors: string[]; samples: string[] }> {
+  const errors = validateCommitTemplates(payload);
+  if (errors.length > 0) {
+    return { success: false, errors, samples: [] };
+  }
+  
+  // Prefer a fully mapped entry so every token shows up in the preview
+  const mapping = await getMapping();
+  const [slug, entry] = Object.entries(mapping.entries)
+    .sort(([, a], [, b]) => Number(!!b.listName && !!b.category) - Number(!!a.listName && !!a.category))[0]
+    || ['two-sum', { title: 'Two Sum', category: 'Arrays & Hashing', listName: 'NeetCode 150', difficulty: 'Easy' }];
+  
+  const samples = [
+    renderMessageTemplate(payload.commitMessageTemplate, {
+      title: entry.title || slugToTitle(slug),
+      slug,
+      difficulty: normalizeDifficulty(entry.difficulty),
+      category: entry.category,
+      list: entry.listName,
+      language: 'python',
+      runtime: '45 ms',
+      memory: '17.2 MB',
+    }),
+    renderMessageTemplate(payload.batchCommitTemplate, { count: '3' }),
+    renderMessageTemplate(payload.progressCommitTemplate, {
+      solved: String(Object.keys((await getProgress()).solved).length),
+    }),
+  ];
+  
+  return { success: true, errors: [], samples };
+}
+
+/**
+ * Which targets a sample solve would go to, under rules that may not be saved yet.
+ * Fields left blank are filled in from the mapping, as they are for queued solves.
+ */
+async function handlePreviewRouting(payload: RoutingPreviewPayload): Promise<{
+  success: boolean;
+  solve: RoutedSolve;
+  targets: Array<{ id: string; label: string }>;
+  rule: number | null;
+}> {
+  const current = await getSettings();
+  const settings: Settings = {
+    ...current,
+    targets: payload.targets ?? current.targets,
+    routingRules: payload.rules ?? current.routingRules,
+  };
+  
+  const entry = (await getMapping()).entries[payload.solve.slug];
+  const solve: RoutedSolve = {
+    ...payload.solve,
+    listName: payload.solve.listName || entry?.listName,
+    category: payload.solve.category || entry?.category,
+    difficulty: payload.solve.difficulty || entry?.difficulty,
+  };
+  
+  const { targets, rule } = routeSolve(solve, settings);
+  return {
+    success: true,
+    solve,
+    targets: targets.map((target) => ({
+      id: target.id,
+      label: target.id === PRIMARY_TARGET_ID ? getTargetName(settings) || 'main repository' : describeTarget(target),
+    })),
+    rule,
+  };
+}
+
+async function handlePreviewPathTemplate(
+  payload: { template: string; baseDir?: string }
+): Promise<{ success: boolean; errors: string[]; samples: Array<{ slug: string; path: string }> }> {
+  const errors = validatePathTemplate(payload.template);
+  if (errors.length > 0) {
+    return { success: false, errors, samples: [] };
+  }
+  
+  const current = await getSettings();
+  const settings: Settings = {
+    ...current,
+    baseDir: payload.baseDir || current.baseDir,
+    organizationMode: 'TEMPLATE',
+    pathTemplate: payload.template,
+  };
+  
+  // Prefer fully mapped entries so every token shows up in the preview
+  const mapping = await getMapping();
+  const entries = Object.entries(mapping.entries)
+    .sort(([, a], [, b]) => Number(!!b.listName && !!b.category) - Number(!!a.listName && !!a.category))
+    .slice(0, 5);
+  
+  if (entries.length === 0) {
+    entries.push(['two-sum', { title: 'Two Sum', category: 'Arrays & Hashing', listName: 'NeetCode 150', listIndex: 1, difficulty: 'Easy' }]);
+  }
+  
+  const samples = entries.map(([slug, entry]) => ({
+    slug,
+    path: buildFilePath(settings, slug, entry.title || '', 'python', entry),
+  }));
+  
+  return { success: true, errors: [], samples };
+}
+
+async function handleGetFailed(): Promise<{
+  success: boolean;
+  items: Array<FailedItem & { targetPath: string }>;
+}> {
+  const failed = await getFailedItems();
+  const settings = await getSettings();
+  const mapping = await getMapping();
+  
+  return {
+    success: true,
+    items: failed.map((entry) => ({
+      ...entry,
+      targetPath: getTargetPath(entry.item, settings, mapping),
+    })),
+  };
+}
+
+async function handleRetryFailed(
+  payload: { id: string; path?: string }
+): Promise<{ success: boolean; error?: string }> {
+  const item = await requeueFailedItem(payload.id, payload.path?.trim() || undefined);
+  
+  if (!item) {
+    return { success: false, error: 'Failed item not found' };
+  }
+  
+  await logger.info(`Retrying failed item: ${item.title}`);
+  setTimeout(() => processQueue(), 100);
+  
+  return { success: true };
+}
+
+async function handleDiscardFailed(
+  payload: { id: string }
+): Promise<{ success: boolean; error?: string }> {
+  const discarded = await discardFailedItem(payload.id);
+  
+  if (!discarded) {
+    return { success: false, error: 'Failed item not found' };
+  }
+  
+  await logger.info('Failed item discarded');
+  return { success: true };
+}
+
+/**
+ * Refresh an expiring device flow token; items held on auth can retry with it
+ */
+async function handleTokenRefresh(): Promise<void> {
+  try {
+    if (await refreshTokenIfNeeded()) {
+      const released = await releaseHeldItems('auth');
+      if (released > 0) {
+        processQueue().catch(console.error);
+      }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await logger.error('Failed to refresh GitHub token, sign in again from the popup', message);
+  }
+}
+
 // Set up alarm for periodic queue processing
 chrome.runtime.onInstalled.addListener(() => {
-  chrome.alarms.create('processQueue', { periodInMinutes: 1 });
+  scheduleQueueAlarm();
+  getSettings().then((settings) => scheduleBatchAlarm(settings)).catch(console.error);
+  chrome.alarms.create(TOKEN_EXPIRY_ALARM, { periodInMinutes: 24 * 60 });
   console.log('[NeetSync] Alarm created for queue processing');
 });
 
 // Also create alarm on startup (service worker wake)
 chrome.runtime.onStartup.addListener(() => {
-  chrome.alarms.create('processQueue', { periodInMinutes: 1 });
+  scheduleQueueAlarm();
+  getSettings().then((settings) => scheduleBatchAlarm(settings)).catch(console.error);
+  checkTokenExpiry().catch(console.error);
+  refreshTokenIfNeeded().catch(console.error);
 });
 
 chrome.alarms.onAlarm.addListener(async (alarm) => {
-  if (alarm.name === 'processQueue') {
+  if (alarm.name === QUEUE_ALARM) {
     await processQueue();
+  } else if (alarm.name === BATCH_ALARM) {
+    const settings = await getSettings();
+    if (settings.batchMode === 'DAILY') {
+      await scheduleBatchAlarm(settings, true);
+    }
+    await openBatchWindow();
+  } else if (alarm.name === TOKEN_EXPIRY_ALARM) {
+    await checkTokenExpiry();
+  } else if (alarm.name === DEVICE_FLOW_ALARM) {
+    await resumeDeviceFlow(handleDeviceToken);
+  } else if (alarm.name === TOKEN_REFRESH_ALARM) {
+    await handleTokenRefresh();
   }
 });
 
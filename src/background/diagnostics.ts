@@ -0,0 +1,278 @@
+// Token and permission diagnostics for NeetSync
+
+import type { DiagnosticCheck, DiagnosticsReport, GitProvider, Settings } from './types';
+import { getSettings, getToken, getTokenExpiration, getTokenMeta } from './storage';
+import { GitHubClient } from './github';
+import { createProvider, getProviderApiBase } from './provider';
+import { getFolderStatus } from './folder';
+import { AuthError, NotFoundError } from './errors';
+import { logger } from './logger';
+
+export const TOKEN_EXPIRY_ALARM = 'checkTokenExpiry';
+export const TOKEN_EXPIRY_WARNING = 7 * 24 * 60 * 60000; // 7 days
+
+const DAY = 24 * 60 * 60000;
+const RATE_LIMIT_WARNING_RATIO = 0.1;
+
+/**
+ * Describe a token expiry as a checklist entry
+ */
+function describeExpiry(expiresAt: number | null): DiagnosticCheck {
+  const check: DiagnosticCheck = { id: 'expiry', label: 'Token expiry', status: 'ok', detail: '' };
+  
+  if (expiresAt === null) {
+    check.detail = 'Token does not expire';
+  } else if (expiresAt <= Date.now()) {
+    check.status = 'fail';
+    check.detail = `Token expired on ${new Date(expiresAt).toLocaleString()}`;
+  } else if (expiresAt - Date.now() <= TOKEN_EXPIRY_WARNING) {
+    const days = Math.ceil((expiresAt - Date.now()) / DAY);
+    check.status = 'warn';
+    check.detail = `Token expires in ${days} day${days === 1 ? '' : 's'} (${new Date(expiresAt).toLocaleString()})`;
+  } else {
+    check.detail = `Token expires on ${new Date(expiresAt).toLocaleDateString()}`;
+  }
+  
+  return check;
+}
+
+/**
+ * Check the branch exists and whether commits to it can go in directly
+ */
+async function checkBranch(client: GitHubClient, settings: Settings): Promise<DiagnosticCheck> {
+  const check: DiagnosticCheck = { id: 'branch', label: 'Branch', status: 'ok', detail: '' };
+  
+  try {
+    const branch = await client.getBranch(settings.branch);
+    if (!branch.protected) {
+      check.detail = `${settings.branch} exists`;
+    } else if (settings.syncMode === 'PULL_REQUEST') {
+      check.detail = `${settings.branch} is protected; pull request sync mode is on`;
+    } else {
+      check.status = 'warn';
+      check.detail = `${settings.branch} is protected, so direct commits may be rejected. Switch Sync Mode to pull requests.`;
+    }
+  } catch (error) {
+    check.status = 'fail';
+    check.detail = error instanceof NotFoundError
+      ? `${settings.branch} does not exist; saving settings creates it from the default branch`
+      : error instanceof Error ? error.message : 'Unknown error';
+  }
+  
+  return check;
+}
+
+/**
+ * Report the remaining rate limit; throws if the token is rejected
+ */
+async function checkRateLimit(client: GitHubClient, settings: Settings): Promise<DiagnosticCheck> {
+  const check: DiagnosticCheck = { id: 'rateLimit', label: 'Rate limit', status: 'ok', detail: '' };
+  
+  try {
+    const { core } = (await client.getRateLimit()).resources;
+    const resetAt = new Date(core.reset * 1000).toLocaleTimeString();
+    check.status = core.remaining < core.limit * RATE_LIMIT_WARNING_RATIO ? 'warn' : 'ok';
+    check.detail = `${core.remaining} of ${core.limit} requests left, resets at ${resetAt}`;
+  } catch (error) {
+    // GitHub Enterprise Server answers 404 when rate limiting is turned off
+    if (!(error instanceof NotFoundError) || !settings.apiBaseUrl) {
+      throw error;
+    }
+    check.detail = 'Rate limiting is disabled on this server';
+  }
+  
+  return check;
+}
+
+/**
+ * The checks every provider supports: the token can read the branch
+ */
+async function checkProviderAccess(provider: GitProvider, settings: Settings): Promise<DiagnosticCheck[]> {
+  const token: DiagnosticCheck = {
+    id: 'token',
+    label: 'Token',
+    status: 'ok',
+    detail: `Token accepted by ${provider.name}`,
+  };
+  
+  try {
+    await provider.getBranchHead(settings.branch);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (error instanceof AuthError) {
+      return [{ ...token, status: 'fail', detail: message }];
+    }
+    return [token, {
+      id: 'repository',
+      label: 'Repository access',
+      status: 'fail',
+      detail: error instanceof NotFoundError
+        ? `${settings.repoFullName} or its ${settings.branch} branch not found, or the token can't see it`
+        : message,
+    }];
+  }
+  
+  return [
+    token,
+    { id: 'repository', label: 'Repository access', status: 'ok', detail: settings.repoFullName },
+    { id: 'branch', label: 'Branch', status: 'ok', detail: `${settings.branch} exists` },
+  ];
+}
+
+/**
+ * A local folder needs no token: only a picked folder we may still write to
+ */
+async function checkLocalFolder(): Promise<DiagnosticCheck> {
+  const check: DiagnosticCheck = { id: 'folder', label: 'Local folder', status: 'ok', detail: '' };
+  const folder = await getFolderStatus();
+  
+  if (!folder) {
+    check.status = 'fail';
+    check.detail = 'No folder chosen; choose one in Options';
+  } else if (folder.permission !== 'granted') {
+    check.status = 'fail';
+    check.detail = `Access to ${folder.name} has lapsed; grant it again in Options`;
+  } else {
+    check.detail = `Writing to ${folder.name}`;
+  }
+  
+  return check;
+}
+
+/**
+ * Run every check against the configured token and repository
+ */
+export async function runDiagnostics(): Promise<DiagnosticsReport> {
+  const settings = await getSettings();
+  const token = await getToken();
+  const checks: DiagnosticCheck[] = [];
+  let client: GitHubClient | null = null;
+  const report = (): DiagnosticsReport => ({
+    checks,
+    tokenExpiresAt: client?.tokenExpiresAt ?? null,
+    checkedAt: Date.now(),
+  });
+  
+  if (settings.provider === 'LOCAL') {
+    checks.push(await checkLocalFolder());
+    return report();
+  }
+  if (!token) {
+    checks.push({ id: 'token', label: 'Token', status: 'fail', detail: 'No token saved' });
+    return report();
+  }
+  if (!settings.repoFullName) {
+    checks.push({ id: 'repository', label: 'Repository access', status: 'fail', detail: 'No repository configured' });
+    return report();
+  }
+  
+  const apiBase = getProviderApiBase(settings);
+  
+  // GitLab and GitHub Enterprise hosts need their optional host permission granted
+  if (settings.apiBaseUrl || settings.provider !== 'GITHUB') {
+    const origin = new URL(apiBase).origin;
+    const granted = await chrome.permissions.contains({ origins: [`${origin}/*`] });
+    checks.push({
+      id: 'host',
+      label: 'Host permission',
+      status: granted ? 'ok' : 'fail',
+      detail: granted
+        ? `Allowed to reach ${origin}`
+        : `Not allowed to reach ${origin}; save the options again and accept the permission prompt`,
+    });
+    if (!granted) {
+      return report();
+    }
+  }
+  
+  // Permissions, protection and rate limits are only inspected on GitHub
+  if (settings.provider !== 'GITHUB') {
+    checks.push(...await checkProviderAccess(createProvider(token, settings), settings));
+    return report();
+  }
+  
+  client = new GitHubClient(token, settings.repoFullName, apiBase);
+  
+  // Rate limit goes first: it's free and its response carries the token expiry
+  let rateLimit: DiagnosticCheck;
+  try {
+    rateLimit = await checkRateLimit(client, settings);
+    checks.push({ id: 'token', label: 'Token', status: 'ok', detail: 'Token accepted by GitHub' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    checks.push({ id: 'token', label: 'Token', status: 'fail', detail: message });
+    return report();
+  }
+  
+  try {
+    const repository = await client.getRepository();
+    checks.push({
+      id: 'repository',
+      label: 'Repository access',
+      status: 'ok',
+      detail: `${settings.repoFullName} (${repository.private ? 'private' : 'public'})`,
+    });
+    
+    const push = repository.permissions?.push;
+    checks.push({
+      id: 'push',
+      label: 'Push permission',
+      status: push ? 'ok' : push === false ? 'fail' : 'warn',
+      detail: push
+        ? 'Token can write to the repository'
+        : push === false
+          ? 'Token is read-only; give it Contents: Read and write'
+          : 'GitHub did not report permissions for this token',
+    });
+    
+    checks.push(await checkBranch(client, settings));
+  } catch (error) {
+    checks.push({
+      id: 'repository',
+      label: 'Repository access',
+      status: 'fail',
+      detail: error instanceof NotFoundError
+        ? `${settings.repoFullName} not found, or the token can't see it`
+        : error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+  
+  const expiry = describeExpiry(client.tokenExpiresAt ?? null);
+  if ((await getTokenMeta())?.refreshToken && expiry.status === 'warn') {
+    expiry.status = 'ok';
+    expiry.detail = 'Short-lived sign-in token, refreshed automatically';
+  }
+  checks.push(expiry, rateLimit);
+  
+  const failed = checks.filter((check) => check.status === 'fail').length;
+  await logger.info(`Diagnostics: ${failed === 0 ? 'all checks passed' : `${failed} checks failed`}`);
+  return report();
+}
+
+/**
+ * Warn ahead of time when the saved token is about to expire
+ */
+export async function checkTokenExpiry(): Promise<void> {
+  // Device flow tokens with a refresh token renew themselves
+  if ((await getTokenMeta())?.refreshToken) {
+    return;
+  }
+  
+  const expiresAt = await getTokenExpiration();
+  if (!expiresAt || expiresAt - Date.now() > TOKEN_EXPIRY_WARNING) {
+    return;
+  }
+  
+  const { detail } = describeExpiry(expiresAt);
+  await logger.warn(detail, 'Generate a new token and save it in the popup before syncing stops');
+  
+  // Notifications are optional; only show one if the user granted them
+  if (await chrome.permissions.contains({ permissions: ['notifications'] })) {
+    chrome.notifications.create(TOKEN_EXPIRY_ALARM, {
+      type: 'basic',
+      iconUrl: 'icons/icon128.png',
+      title: 'NeetSync',
+      message: detail,
+    });
+  }
+}
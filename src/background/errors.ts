@@ -0,0 +1,163 @@
+// Typed GitHub errors for NeetSync
+
+/**
+ * Base class for all errors raised by the GitHub client.
+ * `transient` errors are worth retrying with backoff.
+ */
+export class GitHubError extends Error {
+  status?: number;
+  transient = false;
+  
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'GitHubError';
+    this.status = status;
+  }
+}
+
+/**
+ * 401, or 403 that isn't a rate limit: the token is invalid or lacks access
+ */
+export class AuthError extends GitHubError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * 404: the repo, branch or file doesn't exist (or the token can't see it)
+ */
+export class NotFoundError extends GitHubError {
+  constructor(message: string, status = 404) {
+    super(message, status);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * 409, or 422 caused by a stale SHA: the branch moved under us
+ */
+export class ShaConflictError extends GitHubError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'ShaConflictError';
+  }
+}
+
+/**
+ * Primary or secondary rate limit; `resumeAt` is when requests may continue
+ */
+export class RateLimitedError extends GitHubError {
+  resumeAt: number;
+  
+  constructor(resumeAt: number, message?: string, status?: number) {
+    super(
+      message || `GitHub rate limit reached, paused until ${new Date(resumeAt).toISOString()}`,
+      status
+    );
+    this.name = 'RateLimitedError';
+    this.resumeAt = resumeAt;
+  }
+}
+
+/**
+ * 400/422: the request itself was rejected
+ */
+export class ValidationError extends GitHubError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Write access to the local sync folder has lapsed; it can only be
+ * granted again from an extension page
+ */
+export class FolderAccessError extends GitHubError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FolderAccessError';
+  }
+}
+
+/**
+ * The repository's PROGRESS.json can't be parsed; only an explicit rebuild
+ * from history may replace it
+ */
+export class ProgressFileError extends GitHubError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProgressFileError';
+  }
+}
+
+/**
+ * 5xx: GitHub is having trouble
+ */
+export class ServerError extends GitHubError {
+  transient = true;
+  
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * The request never got a response (offline, DNS, aborted)
+ */
+export class NetworkError extends GitHubError {
+  transient = true;
+  
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+// How GitHub words a 422 for a ref or file that moved since we read it
+const STALE_SHA_MESSAGES = /is at [0-9a-f]+ but expected [0-9a-f]+|update is not a fast forward|does not match/i;
+
+/**
+ * Map a failed (non rate limit) response to a typed error.
+ * GitLab responses map the same way; `host` only changes the message.
+ */
+export function errorFromResponse(status: number, body: string, host = 'GitHub'): GitHubError {
+  const message = `${host} API error ${status}: ${body}`;
+  
+  if (status === 401 || status === 403) {
+    return new AuthError(message, status);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, status);
+  }
+  if (status === 409) {
+    return new ShaConflictError(message, status);
+  }
+  if (status === 422) {
+    if (STALE_SHA_MESSAGES.test(body)) {
+      return new ShaConflictError(message, status);
+    }
+    return new ValidationError(message, status);
+  }
+  if (status >= 500) {
+    return new ServerError(message, status);
+  }
+  if (status === 400) {
+    return new ValidationError(message, status);
+  }
+  return new GitHubError(message, status);
+}
+
+/**
+ * Whether an error is worth retrying with backoff
+ */
+export function isTransient(error: unknown): boolean {
+  if (error instanceof GitHubError) {
+    return error.transient;
+  }
+  // Unknown errors keep the old behaviour of retrying
+  return true;
+}
@@ -0,0 +1,271 @@
+// Local folder sync target for NeetSync (File System Access API)
+
+import type {
+  BootstrapOptions,
+  BootstrapResult,
+  ChangeRequestResult,
+  CommitFile,
+  CommitIdentity,
+  CommitOptions,
+  CommitSummary,
+  GitProvider,
+  LocalFolderStatus,
+  RepoFile,
+  RepoTree,
+} from './types';
+import { FolderAccessError, ValidationError } from './errors';
+import { sha256 } from './normalize';
+
+// The options page saves the picked handle here and the service worker reads it
+const DB_NAME = 'neetsync';
+const DB_VERSION = 1;
+const HANDLE_STORE = 'handles';
+const FOLDER_KEY = 'localFolder';
+
+// A folder has no commits; this stands in for the branch head
+const LOCAL_HEAD = 'local';
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(HANDLE_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * The directory handle picked in Options, if any
+ */
+export async function getFolderHandle(): Promise<FileSystemDirectoryHandle | null> {
+  const db = await openDatabase();
+  try {
+    return await new Promise((resolve, reject) => {
+      const request = db.transaction(HANDLE_STORE, 'readonly').objectStore(HANDLE_STORE).get(FOLDER_KEY);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Remember the directory picked in Options
+ */
+export async function saveFolderHandle(handle: FileSystemDirectoryHandle): Promise<void> {
+  const db = await openDatabase();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(HANDLE_STORE, 'readwrite');
+      transaction.objectStore(HANDLE_STORE).put(handle, FOLDER_KEY);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Folder name and whether it may still be written to, for the popup and options
+ */
+export async function getFolderStatus(): Promise<LocalFolderStatus | null> {
+  const handle = await getFolderHandle();
+  if (!handle) {
+    return null;
+  }
+  return { name: handle.name, permission: await handle.queryPermission({ mode: 'readwrite' }) };
+}
+
+/**
+ * Whether a File System Access error means the entry isn't there
+ */
+function isMissing(error: unknown): boolean {
+  return error instanceof DOMException &&
+    (error.name === 'NotFoundError' || error.name === 'TypeMismatchError');
+}
+
+/**
+ * Writes the same files a repository would get into a folder on disk.
+ * There is no history, so listCommits is empty and every "commit" lands.
+ */
+export class LocalFolderClient implements GitProvider {
+  readonly name = 'Local folder';
+  readonly changeRequestName = 'pull request';
+  private handle: FileSystemDirectoryHandle | null = null;
+  
+  /**
+   * The folder, once we know we may still write to it. Permission lapses,
+   * e.g. after a browser restart, and only an extension page can ask again.
+   */
+  private async root(): Promise<FileSystemDirectoryHandle> {
+    if (!this.handle) {
+      this.handle = await getFolderHandle();
+      if (!this.handle) {
+        throw new ValidationError('Choose a local folder in Options');
+      }
+    }
+    
+    if ((await this.handle.queryPermission({ mode: 'readwrite' })) !== 'granted') {
+      throw new FolderAccessError(
+        `Access to the folder ${this.handle.name} has lapsed; grant it again in Options`
+      );
+    }
+    return this.handle;
+  }
+  
+  private async getDirectory(names: string[], create: boolean): Promise<FileSystemDirectoryHandle> {
+    let directory = await this.root();
+    for (const name of names) {
+      directory = await directory.getDirectoryHandle(name, { create });
+    }
+    return directory;
+  }
+  
+  /**
+   * Split a repository-style path into its directory names and file name
+   */
+  private splitPath(path: string): { names: string[]; file: string } {
+    const names = path.split('/').filter(Boolean);
+    const file = names.pop() || '';
+    return { names, file };
+  }
+  
+  private async readText(path: string): Promise<string | null> {
+    const { names, file } = this.splitPath(path);
+    try {
+      const directory = await this.getDirectory(names, false);
+      const handle = await directory.getFileHandle(file);
+      return await (await handle.getFile()).text();
+    } catch (error) {
+      if (isMissing(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+  
+  private async writeText(path: string, content: string): Promise<void> {
+    const { names, file } = this.splitPath(path);
+    const directory = await this.getDirectory(names, true);
+    const handle = await directory.getFileHandle(file, { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(content);
+    await writable.close();
+  }
+  
+  private async remove(path: string): Promise<void> {
+    const { names, file } = this.splitPath(path);
+    try {
+      const directory = await this.getDirectory(names, false);
+      await directory.removeEntry(file);
+    } catch (error) {
+      if (!isMissing(error)) {
+        throw error;
+      }
+    }
+  }
+  
+  /**
+   * Read a text file; the "SHA" is a hash of its contents
+   */
+  async getFile(path: string): Promise<RepoFile | null> {
+    const text = await this.readText(path);
+    if (text === null) {
+      return null;
+    }
+    return { sha: await sha256(text), text };
+  }
+  
+  /**
+   * Check the folder is still writable; every head is the same
+   */
+  async getBranchHead(): Promise<string> {
+    await this.root();
+    return LOCAL_HEAD;
+  }
+  
+  async listCommits(): Promise<CommitSummary[]> {
+    return [];
+  }
+  
+  /**
+   * Every file in the folder, walked recursively
+   */
+  async listFiles(): Promise<RepoTree> {
+    const paths: string[] = [];
+    
+    const walk = async (directory: FileSystemDirectoryHandle, prefix: string) => {
+      for await (const [name, entry] of directory.entries()) {
+        if (entry.kind === 'directory') {
+          await walk(entry as FileSystemDirectoryHandle, `${prefix}${name}/`);
+        } else {
+          paths.push(`${prefix}${name}`);
+        }
+      }
+    };
+    await walk(await this.root(), '');
+    
+    return { paths, truncated: false };
+  }
+  
+  /**
+   * Write files, then apply moves and deletes. Nothing else writes to the
+   * folder, so there is no parent to pin.
+   */
+  async commitFiles(
+    files: CommitFile[],
+    message: string,
+    branch: string,
+    options: CommitOptions = {}
+  ): Promise<string> {
+    for (const move of options.moves || []) {
+      const text = await this.readText(move.from);
+      if (text === null) {
+        continue;
+      }
+      await this.writeText(move.to, text);
+      await this.remove(move.from);
+    }
+    for (const path of options.deletes || []) {
+      await this.remove(path);
+    }
+    for (const file of files) {
+      await this.writeText(file.path, file.content);
+    }
+    return LOCAL_HEAD;
+  }
+  
+  async getCommitIdentity(authorName: string, authorEmail: string): Promise<CommitIdentity> {
+    return { name: authorName, email: authorEmail };
+  }
+  
+  /**
+   * Check the folder is writable and seed it with the initial files if empty
+   */
+  async verifyAccess(options: BootstrapOptions): Promise<BootstrapResult> {
+    const created: string[] = [];
+    
+    try {
+      const root = await this.root();
+      const empty = (await root.entries().next()).done;
+      if (empty) {
+        await this.commitFiles(options.initialFiles, '', options.branch);
+        created.push(...options.initialFiles.map((file) => file.path));
+      }
+      return { valid: true, created };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { valid: false, error: message, created };
+    }
+  }
+  
+  async prepareChangeBranch(): Promise<boolean> {
+    throw new ValidationError('Pull requests are not available for a local folder');
+  }
+  
+  async openChangeRequest(): Promise<ChangeRequestResult> {
+    throw new ValidationError('Pull requests are not available for a local folder');
+  }
+}
@@ -0,0 +1,514 @@
+// Gitea and Forgejo API client for NeetSync
+
+import type {
+  BootstrapOptions,
+  BootstrapResult,
+  ChangeRequestOptions,
+  ChangeRequestResult,
+  CommitFile,
+  CommitIdentity,
+  CommitOptions,
+  CommitSummary,
+  GiteaBranchResponse,
+  GiteaCommitListItem,
+  GiteaCompareResponse,
+  GiteaContentsResponse,
+  GiteaFileChange,
+  GiteaFilesResponse,
+  GiteaPullRequest,
+  GiteaRepoResponse,
+  GiteaTreeResponse,
+  GiteaUserResponse,
+  GitProvider,
+  RepoFile,
+  RepoTree,
+  Settings,
+} from './types';
+import { scheduler, encodeBase64, decodeBase64, parseRetryAfter } from './github';
+import {
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  ShaConflictError,
+  ValidationError,
+  errorFromResponse,
+} from './errors';
+
+const GITEA_API_PATH = '/api/v1';
+const RATE_LIMIT_DELAY = 60000; // 1 minute when the server gives no hint
+const TREE_PAGE_SIZE = 1000;
+const MAX_TREE_PAGES = 10;
+const PULLS_PAGE_SIZE = 50;
+
+/**
+ * REST API base for a Gitea or Forgejo server; /api/v1 is added if only
+ * the host was entered. There is no default host, and plain http is kept
+ * so a local container or stub server can be used.
+ */
+export function getGiteaApiBase(settings: Pick<Settings, 'apiBaseUrl'>): string {
+  let base = (settings.apiBaseUrl || '').trim().replace(/\/+$/, '');
+  if (!base) {
+    return '';
+  }
+  if (!/^https?:\/\//.test(base)) {
+    base = `https://${base}`;
+  }
+  if (!base.endsWith(GITEA_API_PATH)) {
+    base += GITEA_API_PATH;
+  }
+  return base;
+}
+
+/**
+ * Web host matching a Gitea API base
+ */
+export function getGiteaWebBase(apiBase: string): string {
+  return apiBase.endsWith(GITEA_API_PATH) ? apiBase.slice(0, -GITEA_API_PATH.length) : apiBase;
+}
+
+/**
+ * Encode a repository path or branch for a URL path, keeping its slashes
+ */
+function encodePath(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/');
+}
+
+export class GiteaClient implements GitProvider {
+  readonly name = 'Gitea';
+  readonly changeRequestName = 'pull request';
+  private token: string;
+  private owner: string;
+  private repo: string;
+  private apiBase: string;
+  private user: GiteaUserResponse | null = null;
+  
+  constructor(token: string, repoFullName: string, apiBase: string) {
+    this.token = token;
+    const [owner, repo] = repoFullName.split('/');
+    this.owner = owner;
+    this.repo = repo;
+    this.apiBase = apiBase;
+  }
+  
+  private get repoPath(): string {
+    return `/repos/${encodeURIComponent(this.owner)}/${encodeURIComponent(this.repo)}`;
+  }
+  
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    if (!this.apiBase) {
+      throw new ValidationError('Set your Gitea server URL in Options');
+    }
+    
+    const headers: Record<string, string> = {
+      'Accept': 'application/json',
+      'Authorization': `token ${this.token}`,
+    };
+    
+    if (body) {
+      headers['Content-Type'] = 'application/json';
+    }
+    
+    await scheduler.acquire();
+    
+    let response: Response;
+    try {
+      response = await fetch(`${this.apiBase}${path}`, {
+        method,
+        headers,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new NetworkError(`Gitea request failed: ${message}`);
+    }
+    
+    if (!response.ok) {
+      const errorText = await response.text();
+      
+      // Rate limiting is off by default but can be turned on per server
+      if (response.status === 429) {
+        const resumeAt = parseRetryAfter(response) ?? Date.now() + RATE_LIMIT_DELAY;
+        await scheduler.pause(resumeAt);
+        throw new RateLimitedError(
+          resumeAt,
+          `Gitea rate limit reached, paused until ${new Date(resumeAt).toISOString()}`,
+          response.status
+        );
+      }
+      
+      throw errorFromResponse(response.status, errorText, 'Gitea');
+    }
+    
+    // Handle 201/204 without a body
+    const text = await response.text();
+    return (text ? JSON.parse(text) : {}) as T;
+  }
+  
+  /**
+   * Get a file's Base64 content and blob SHA at a ref
+   */
+  private async getContents(path: string, ref: string): Promise<GiteaContentsResponse | null> {
+    try {
+      return await this.request<GiteaContentsResponse>(
+        'GET',
+        `${this.repoPath}/contents/${encodePath(path)}?ref=${encodeURIComponent(ref)}`
+      );
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Get a text file's decoded contents and SHA
+   */
+  async getFile(path: string, ref: string): Promise<RepoFile | null> {
+    const file = await this.getContents(path, ref);
+    if (!file) {
+      return null;
+    }
+    return { sha: file.sha, text: decodeBase64(file.content || '') };
+  }
+  
+  /**
+   * Get the commit SHA a branch points to
+   */
+  async getBranchHead(branch: string): Promise<string> {
+    const result = await this.request<GiteaBranchResponse>(
+      'GET',
+      `${this.repoPath}/branches/${encodePath(branch)}`
+    );
+    return result.commit.id;
+  }
+  
+  /**
+   * List the most recent commits on a branch
+   */
+  async listCommits(branch: string, perPage = 30, page = 1): Promise<CommitSummary[]> {
+    const commits = await this.request<GiteaCommitListItem[]>(
+      'GET',
+      `${this.repoPath}/commits?sha=${encodeURIComponent(branch)}&limit=${perPage}&page=${page}&stat=false&files=false`
+    );
+    return commits.map((commit) => ({ sha: commit.sha, message: commit.commit.message }));
+  }
+  
+  /**
+   * Every file path on a branch; the tree endpoint is paginated
+   */
+  async listFiles(ref: string): Promise<RepoTree> {
+    const paths: string[] = [];
+    
+    for (let page = 1; page <= MAX_TREE_PAGES; page++) {
+      const tree = await this.request<GiteaTreeResponse>(
+        'GET',
+        `${this.repoPath}/git/trees/${encodePath(ref)}?recursive=true&per_page=${TREE_PAGE_SIZE}&page=${page}`
+      );
+      paths.push(...tree.tree.filter((node) => node.type === 'blob').map((node) => node.path));
+      if (!tree.truncated || tree.tree.length === 0) {
+        return { paths, truncated: false };
+      }
+    }
+    
+    return { paths, truncated: true };
+  }
+  
+  /**
+   * Write several files, plus any moves and deletes, in a single commit
+   * using the change-files endpoint.
+   *
+   * Every update and delete names the blob it replaces, read at `parentSha`
+   * when given, so if another device changed one of those files since,
+   * Gitea rejects the commit (ShaConflictError).
+   */
+  async commitFiles(
+    files: CommitFile[],
+    message: string,
+    branch: string,
+    options: CommitOptions = {}
+  ): Promise<string> {
+    const ref = options.parentSha || branch;
+    const changes: GiteaFileChange[] = [];
+    
+    for (const file of files) {
+      const existing = await this.getContents(file.path, ref);
+      changes.push({
+        operation: existing ? 'update' : 'create',
+        path: file.path,
+        content: encodeBase64(file.content),
+        sha: existing?.sha,
+      });
+    }
+    
+    // A rename is an update from the old path and has to carry the content
+    for (const move of options.moves || []) {
+      const existing = await this.getContents(move.from, ref);
+      if (!existing) {
+        throw new NotFoundError(`${move.from} not found in ${ref}`);
+      }
+      changes.push({
+        operation: 'update',
+        path: move.to,
+        from_path: move.from,
+        content: (existing.content || '').replace(/\s/g, ''),
+        sha: existing.sha,
+      });
+    }
+    for (const path of options.deletes || []) {
+      const existing = await this.getContents(path, ref);
+      if (existing) {
+        changes.push({ operation: 'delete', path, sha: existing.sha });
+      }
+    }
+    
+    const body: Record<string, unknown> = { branch, message, files: changes };
+    if (options.author) {
+      const { name, email, date } = options.author;
+      body.author = { name, email };
+      body.committer = { name, email };
+      if (date) {
+        body.dates = { author: date, committer: new Date().toISOString() };
+      }
+    }
+    
+    try {
+      const result = await this.request<GiteaFilesResponse>('POST', `${this.repoPath}/contents`, body);
+      return result.commit.sha;
+    } catch (error) {
+      // A file created in the meantime; stale SHAs already map to ShaConflictError
+      if (error instanceof ValidationError && /already exists/i.test(error.message)) {
+        throw new ShaConflictError(error.message, error.status);
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Get the user the token belongs to
+   */
+  async getAuthenticatedUser(): Promise<GiteaUserResponse> {
+    if (!this.user) {
+      this.user = await this.request<GiteaUserResponse>('GET', '/user');
+    }
+    return this.user;
+  }
+  
+  /**
+   * Author identity for backdated commits: the configured name and email,
+   * otherwise the token owner's
+   */
+  async getCommitIdentity(authorName: string, authorEmail: string): Promise<CommitIdentity> {
+    if (authorName && authorEmail) {
+      return { name: authorName, email: authorEmail };
+    }
+    
+    const user = await this.getAuthenticatedUser();
+    return {
+      name: authorName || user.full_name || user.login,
+      email: authorEmail || user.email ||
+        `${user.login}@noreply.${new URL(getGiteaWebBase(this.apiBase)).hostname}`,
+    };
+  }
+  
+  /**
+   * Create this repository (private) under the token owner's account
+   */
+  async createRepository(): Promise<GiteaRepoResponse> {
+    const user = await this.getAuthenticatedUser();
+    if (user.login.toLowerCase() !== this.owner.toLowerCase()) {
+      throw new ValidationError(
+        `Can only create repositories under your own account (${user.login}), not ${this.owner}`
+      );
+    }
+    
+    return this.request<GiteaRepoResponse>('POST', '/user/repos', {
+      name: this.repo,
+      private: true,
+      description: 'NeetCode solutions synced by NeetSync',
+    });
+  }
+  
+  /**
+   * Create a branch from another branch
+   */
+  async createBranch(branch: string, from: string): Promise<void> {
+    await this.request('POST', `${this.repoPath}/branches`, {
+      new_branch_name: branch,
+      old_branch_name: from,
+    });
+  }
+  
+  /**
+   * Delete a branch
+   */
+  async deleteBranch(branch: string): Promise<void> {
+    await this.request('DELETE', `${this.repoPath}/branches/${encodePath(branch)}`);
+  }
+  
+  /**
+   * Verify token and repo access, setting up what's missing along the way:
+   * the repository (when allowed), a first commit in an empty repository,
+   * and the branch, created from the default branch.
+   */
+  async verifyAccess(options: BootstrapOptions): Promise<BootstrapResult> {
+    const created: string[] = [];
+    
+    try {
+      let repository: GiteaRepoResponse;
+      try {
+        repository = await this.request<GiteaRepoResponse>('GET', this.repoPath);
+      } catch (error) {
+        if (!(error instanceof NotFoundError) || !options.createRepository) {
+          throw error;
+        }
+        repository = await this.createRepository();
+        created.push(`repository ${this.owner}/${this.repo}`);
+      }
+      
+      // Change-files works on an empty repository and creates the branch
+      const defaultBranch = repository.default_branch || options.branch;
+      if (repository.empty) {
+        await this.commitFiles(options.initialFiles, '🎉 Set up NeetSync', defaultBranch);
+        created.push(...options.initialFiles.map((file) => file.path));
+      }
+      
+      if (options.branch !== defaultBranch) {
+        try {
+          await this.getBranchHead(options.branch);
+        } catch (error) {
+          if (!(error instanceof NotFoundError)) {
+            throw error;
+          }
+          await this.createBranch(options.branch, defaultBranch);
+          created.push(`branch ${options.branch}`);
+        }
+      }
+      
+      return { valid: true, created };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { valid: false, error: message, created };
+    }
+  }
+  
+  /**
+   * Find the open pull request from `head` into `base`
+   */
+  async findOpenPullRequest(head: string, base: string): Promise<GiteaPullRequest | null> {
+    const pulls = await this.request<GiteaPullRequest[]>(
+      'GET',
+      `${this.repoPath}/pulls?state=open&limit=${PULLS_PAGE_SIZE}`
+    );
+    return pulls.find((pull) => pull.head.ref === head && pull.base.ref === base) || null;
+  }
+  
+  /**
+   * Find the most recently merged pull request from `head` into `base`
+   */
+  async findMergedPullRequest(head: string, base: string): Promise<GiteaPullRequest | null> {
+    const pulls = await this.request<GiteaPullRequest[]>(
+      'GET',
+      `${this.repoPath}/pulls?state=closed&sort=recentupdate&limit=${PULLS_PAGE_SIZE}`
+    );
+    return pulls.find((pull) => pull.merged && pull.head.ref === head && pull.base.ref === base) || null;
+  }
+  
+  /**
+   * Make sure a working branch exists, starting it from the base branch.
+   * Branches can't be moved through the API, so one left over from a
+   * merged pull request with nothing new on it is recreated from the base.
+   * That includes a squash merge, whose commits still look ahead of the base.
+   */
+  async prepareChangeBranch(branch: string, base: string): Promise<boolean> {
+    let head: string;
+    try {
+      head = await this.getBranchHead(branch);
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+      await this.createBranch(branch, base);
+      return true;
+    }
+    
+    if (await this.findOpenPullRequest(branch, base)) {
+      return false;
+    }
+    
+    if ((await this.findMergedPullRequest(branch, base))?.head.sha === head) {
+      await this.deleteBranch(branch);
+      await this.createBranch(branch, base);
+      return false;
+    }
+    
+    const comparison = await this.request<GiteaCompareResponse>(
+      'GET',
+      `${this.repoPath}/compare/${encodePath(base)}...${encodePath(branch)}`
+    );
+    if (comparison.total_commits === 0 && head !== await this.getBranchHead(base)) {
+      await this.deleteBranch(branch);
+      await this.createBranch(branch, base);
+    }
+    return false;
+  }
+  
+  /**
+   * Open a pull request, or add the missing lines to the one already open,
+   * then have it merge once checks pass if asked
+   */
+  async openChangeRequest(options: ChangeRequestOptions): Promise<ChangeRequestResult> {
+    let pull = await this.findOpenPullRequest(options.sourceBranch, options.targetBranch);
+    let created = false;
+    let added = options.lines.length;
+    
+    if (pull) {
+      const body = pull.body || options.header;
+      const missing = options.lines.filter((line) => !body.includes(line));
+      added = missing.length;
+      if (missing.length > 0) {
+        pull = await this.request<GiteaPullRequest>(
+          'PATCH',
+          `${this.repoPath}/pulls/${pull.number}`,
+          { body: [body, ...missing].join('\n') }
+        );
+      }
+    } else {
+      pull = await this.request<GiteaPullRequest>('POST', `${this.repoPath}/pulls`, {
+        head: options.sourceBranch,
+        base: options.targetBranch,
+        title: options.title,
+        body: [options.header, ...options.lines].join('\n'),
+      });
+      created = true;
+    }
+    
+    const result: ChangeRequestResult = {
+      number: pull.number,
+      url: pull.html_url,
+      created,
+      added,
+      merged: false,
+    };
+    if (!options.autoMerge) {
+      return result;
+    }
+    
+    // Merges straight away when there are no checks to wait for
+    try {
+      await this.request('POST', `${this.repoPath}/pulls/${pull.number}/merge`, {
+        Do: 'merge',
+        merge_when_checks_succeed: true,
+      });
+      const merged = await this.request<GiteaPullRequest>('GET', `${this.repoPath}/pulls/${pull.number}`);
+      result.merged = merged.merged;
+    } catch (error) {
+      result.autoMergeError = error instanceof Error ? error.message : 'Unknown error';
+    }
+    return result;
+  }
+}
@@ -1,20 +1,262 @@
 // GitHub API client for NeetSync
 
-import type { GitHubFileResponse, GitHubCreateFileRequest } from './types';
-import { logger } from './logger';
+import type {
+  GitHubFileResponse,
+  GitHubBlobResponse,
+  GitHubCreateFileRequest,
+  GitHubRefResponse,
+  GitHubCommitResponse,
+  GitHubCommitListItem,
+  GitHubShaResponse,
+  GitHubUserResponse,
+  GitHubRepoResponse,
+  BootstrapOptions,
+  BootstrapResult,
+  GitHubPullRequest,
+  GitHubBranchResponse,
+  GitHubRateLimitResponse,
+  GitHubCompareResponse,
+  GitHubTreeEntry,
+  GitHubTreeResponse,
+  CommitFile,
+  CommitIdentity,
+  CommitOptions,
+  CommitSummary,
+  ChangeRequestOptions,
+  ChangeRequestResult,
+  GitProvider,
+  RateLimitState,
+  RepoFile,
+  RepoTree,
+  Settings,
+} from './types';
+import { getRateLimitState, saveRateLimitState, saveTokenExpiration } from './storage';
+import {
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  ShaConflictError,
+  ValidationError,
+  errorFromResponse,
+} from './errors';
 
 const GITHUB_API_BASE = 'https://api.github.com';
+const GITHUB_WEB_BASE = 'https://github.com';
+const GHES_API_PATH = '/api/v3';
+const RATE_LIMIT_RESERVE = 10; // Requests kept back so a commit never stops halfway
+const SECONDARY_LIMIT_DELAY = 60000; // 1 minute when GitHub gives no hint
 
-export class GitHubClient {
+/**
+ * Central scheduler that tracks the GitHub rate limit budget.
+ * State is persisted so a pause survives service worker restarts.
+ */
+export class RequestScheduler {
+  private state: RateLimitState = {};
+  private initialized = false;
+  
+  async init(): Promise<void> {
+    if (this.initialized) return;
+    this.state = await getRateLimitState();
+    this.initialized = true;
+  }
+  
+  /**
+   * Time until which requests are paused, or 0 when not paused
+   */
+  async getPausedUntil(): Promise<number> {
+    await this.init();
+    const now = Date.now();
+    
+    if (this.state.pausedUntil && this.state.pausedUntil > now) {
+      return this.state.pausedUntil;
+    }
+    
+    if (
+      this.state.remaining !== undefined &&
+      this.state.remaining <= RATE_LIMIT_RESERVE &&
+      this.state.resetAt &&
+      this.state.resetAt > now
+    ) {
+      return this.state.resetAt;
+    }
+    
+    return 0;
+  }
+  
+  /**
+   * Throw if the budget is exhausted; called before every request
+   */
+  async acquire(): Promise<void> {
+    const pausedUntil = await this.getPausedUntil();
+    if (pausedUntil) {
+      throw new RateLimitedError(pausedUntil);
+    }
+  }
+  
+  /**
+   * Record the budget reported by a response
+   */
+  async record(response: Response): Promise<void> {
+    await this.init();
+    
+    const remaining = response.headers.get('X-RateLimit-Remaining');
+    const reset = response.headers.get('X-RateLimit-Reset');
+    
+    if (remaining === null && reset === null) {
+      return;
+    }
+    
+    if (remaining !== null) {
+      this.state.remaining = parseInt(remaining, 10);
+    }
+    if (reset !== null) {
+      this.state.resetAt = parseInt(reset, 10) * 1000;
+    }
+    await saveRateLimitState(this.state);
+  }
+  
+  /**
+   * Pause all requests until the given time
+   */
+  async pause(until: number): Promise<void> {
+    await this.init();
+    this.state.pausedUntil = Math.max(until, this.state.pausedUntil || 0);
+    await saveRateLimitState(this.state);
+  }
+  
+  /**
+   * Work out when to resume after a primary or secondary rate limit response
+   */
+  getResumeTime(response: Response): number {
+    const retryAt = parseRetryAfter(response);
+    if (retryAt !== null) {
+      return retryAt;
+    }
+    
+    const reset = response.headers.get('X-RateLimit-Reset');
+    if (response.headers.get('X-RateLimit-Remaining') === '0' && reset !== null) {
+      return parseInt(reset, 10) * 1000;
+    }
+    
+    return Date.now() + SECONDARY_LIMIT_DELAY;
+  }
+}
+
+export const scheduler = new RequestScheduler();
+
+/**
+ * When a Retry-After header says requests may continue. It holds either
+ * seconds or an HTTP date; null if it's missing or neither.
+ */
+export function parseRetryAfter(response: Response): number | null {
+  const retryAfter = response.headers.get('Retry-After')?.trim();
+  if (!retryAfter) {
+    return null;
+  }
+  if (/^\d+$/.test(retryAfter)) {
+    return Date.now() + parseInt(retryAfter, 10) * 1000;
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : date;
+}
+
+/**
+ * Check whether a 403/429 response is a rate limit rather than a permission error
+ */
+function isRateLimitResponse(response: Response, body: string): boolean {
+  if (response.status === 429) return true;
+  if (response.status !== 403) return false;
+  
+  return (
+    response.headers.get('Retry-After') !== null ||
+    response.headers.get('X-RateLimit-Remaining') === '0' ||
+    body.toLowerCase().includes('rate limit')
+  );
+}
+
+/**
+ * Base64 encode a UTF-8 string
+ */
+export function encodeBase64(content: string): string {
+  return btoa(unescape(encodeURIComponent(content)));
+}
+
+/**
+ * Decode Base64 (as returned by the Contents API, with line breaks) to UTF-8
+ */
+export function decodeBase64(content: string): string {
+  return decodeURIComponent(escape(atob(content.replace(/\s/g, ''))));
+}
+
+/**
+ * Parse the github-authentication-token-expiration header,
+ * e.g. "2024-03-01 12:00:00 UTC" or "2024-03-01 12:00:00 -0800"
+ */
+export function parseTokenExpiration(value: string): number | null {
+  const match = value.trim().match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) (UTC|[+-]\d{4})$/);
+  if (!match) {
+    return null;
+  }
+  
+  const [, date, time, zone] = match;
+  const offset = zone === 'UTC' ? 'Z' : `${zone.slice(0, 3)}:${zone.slice(3)}`;
+  const parsed = Date.parse(`${date}T${time}${offset}`);
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * REST API base for the configured host. GitHub Enterprise Server serves
+ * the API under /api/v3, which is added if only the host was entered.
+ */
+export function getApiBase(settings: Pick<Settings, 'apiBaseUrl'>): string {
+  let base = (settings.apiBaseUrl || '').trim().replace(/\/+$/, '');
+  if (!base) {
+    return GITHUB_API_BASE;
+  }
+  if (!/^https?:\/\//.test(base)) {
+    base = `https://${base}`;
+  }
+  if (base !== GITHUB_API_BASE && !base.endsWith(GHES_API_PATH)) {
+    base += GHES_API_PATH;
+  }
+  return base;
+}
+
+/**
+ * Web host matching an API base (https://github.com for api.github.com)
+ */
+export function getWebBase(apiBase: string): string {
+  if (apiBase === GITHUB_API_BASE) {
+    return GITHUB_WEB_BASE;
+  }
+  return apiBase.endsWith(GHES_API_PATH) ? apiBase.slice(0, -GHES_API_PATH.length) : apiBase;
+}
+
+/**
+ * Encode a branch name for use in a URL path, keeping its slashes
+ */
+function encodeBranch(branch: string): string {
+  return branch.split('/').map(encodeURIComponent).join('/');
+}
+
+export class GitHubClient implements GitProvider {
+  readonly name = 'GitHub';
+  readonly changeRequestName = 'pull request';
   private token: string;
   private owner: string;
   private repo: string;
+  private apiBase: string;
+  private user: GitHubUserResponse | null = null;
+  
+  // Expiry reported by the last response; undefined until one arrives
+  tokenExpiresAt?: number | null;
   
-  constructor(token: string, repoFullName: string) {
+  constructor(token: string, repoFullName: string, apiBase = GITHUB_API_BASE) {
     this.token = token;
     const [owner, repo] = repoFullName.split('/');
     this.owner = owner;
     this.repo = repo;
+    this.apiBase = apiBase;
   }
   
   private async request<T>(
@@ -22,7 +264,8 @@ export class GitHubClient {
     path: string,
     body?: unknown
   ): Promise<T> {
-    const url = `${GITHUB_API_BASE}${path}`;
+    // Absolute URLs are for endpoints outside the REST base (GraphQL on GHES)
+    const url = /^https?:\/\//.test(path) ? path : `${this.apiBase}${path}`;
     
     const headers: Record<string, string> = {
       'Accept': 'application/vnd.github.v3+json',
@@ -34,15 +277,33 @@ export class GitHubClient {
       headers['Content-Type'] = 'application/json';
     }
     
-    const response = await fetch(url, {
-      method,
-      headers,
-      body: body ? JSON.stringify(body) : undefined,
-    });
+    await scheduler.acquire();
+    
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new NetworkError(`GitHub request failed: ${message}`);
+    }
+    
+    await scheduler.record(response);
+    await this.recordTokenExpiration(response);
     
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`GitHub API error ${response.status}: ${errorText}`);
+      
+      if (isRateLimitResponse(response, errorText)) {
+        const resumeAt = scheduler.getResumeTime(response);
+        await scheduler.pause(resumeAt);
+        throw new RateLimitedError(resumeAt, undefined, response.status);
+      }
+      
+      throw errorFromResponse(response.status, errorText);
     }
     
     // Handle 204 No Content
@@ -54,9 +315,26 @@ export class GitHubClient {
   }
   
   /**
-   * Get file contents and SHA
+   * Remember when the token expires so the user can be warned ahead of time.
+   * Tokens without an expiry don't send the header.
+   */
+  private async recordTokenExpiration(response: Response): Promise<void> {
+    if (response.status === 401) {
+      return;
+    }
+    
+    const header = response.headers.get('github-authentication-token-expiration');
+    const expiresAt = header ? parseTokenExpiration(header) : null;
+    if (expiresAt !== this.tokenExpiresAt) {
+      this.tokenExpiresAt = expiresAt;
+      await saveTokenExpiration(expiresAt);
+    }
+  }
+  
+  /**
+   * Get raw Contents API file (Base64 content and SHA)
    */
-  async getFile(path: string, branch: string): Promise<GitHubFileResponse | null> {
+  private async getContents(path: string, branch: string): Promise<GitHubFileResponse | null> {
     try {
       const result = await this.request<GitHubFileResponse>(
         'GET',
@@ -64,13 +342,31 @@ export class GitHubClient {
       );
       return result;
     } catch (error) {
-      if (error instanceof Error && error.message.includes('404')) {
+      if (error instanceof NotFoundError) {
         return null;
       }
       throw error;
     }
   }
   
+  /**
+   * Get a text file's decoded contents and SHA
+   */
+  async getFile(path: string, branch: string): Promise<RepoFile | null> {
+    const file = await this.getContents(path, branch);
+    if (!file) {
+      return null;
+    }
+    if (!file.content && file.size) {
+      const blob = await this.request<GitHubBlobResponse>(
+        'GET',
+        `/repos/${this.owner}/${this.repo}/git/blobs/${file.sha}`
+      );
+      return { sha: file.sha, text: decodeBase64(blob.content) };
+    }
+    return { sha: file.sha, text: decodeBase64(file.content || '') };
+  }
+  
   /**
    * Create or update a file
    */
@@ -84,13 +380,13 @@ export class GitHubClient {
     // Get existing SHA if not provided
     let sha = existingSha;
     if (!sha) {
-      const existing = await this.getFile(path, branch);
+      const existing = await this.getContents(path, branch);
       sha = existing?.sha;
     }
     
     const body: GitHubCreateFileRequest = {
       message,
-      content: btoa(unescape(encodeURIComponent(content))), // Base64 encode UTF-8
+      content: encodeBase64(content),
       branch,
     };
     
@@ -106,55 +402,474 @@ export class GitHubClient {
   }
   
   /**
-   * Verify token and repo access
+   * Get the commit SHA a branch points to
+   */
+  async getBranchHead(branch: string): Promise<string> {
+    const ref = await this.request<GitHubRefResponse>(
+      'GET',
+      `/repos/${this.owner}/${this.repo}/git/ref/heads/${encodeBranch(branch)}`
+    );
+    return ref.object.sha;
+  }
+  
+  /**
+   * Get a commit object (used to find its tree)
+   */
+  async getCommit(sha: string): Promise<GitHubCommitResponse> {
+    return this.request<GitHubCommitResponse>(
+      'GET',
+      `/repos/${this.owner}/${this.repo}/git/commits/${sha}`
+    );
+  }
+  
+  /**
+   * Get the full file tree of a branch
+   */
+  async getTree(branch: string): Promise<GitHubTreeResponse> {
+    return this.request<GitHubTreeResponse>(
+      'GET',
+      `/repos/${this.owner}/${this.repo}/git/trees/${encodeURIComponent(branch)}?recursive=1`
+    );
+  }
+  
+  /**
+   * Every file path on a branch
+   */
+  async listFiles(ref: string): Promise<RepoTree> {
+    const tree = await this.getTree(ref);
+    return {
+      paths: tree.tree.filter((node) => node.type === 'blob').map((node) => node.path),
+      truncated: tree.truncated,
+    };
+  }
+  
+  /**
+   * List the most recent commits on a branch
+   */
+  async listCommits(branch: string, perPage = 30, page = 1): Promise<CommitSummary[]> {
+    const commits = await this.request<GitHubCommitListItem[]>(
+      'GET',
+      `/repos/${this.owner}/${this.repo}/commits?sha=${encodeURIComponent(branch)}&per_page=${perPage}&page=${page}`
+    );
+    return commits.map((commit) => ({ sha: commit.sha, message: commit.commit.message }));
+  }
+  
+  /**
+   * Create a blob and return its SHA
+   */
+  async createBlob(content: string): Promise<string> {
+    const blob = await this.request<GitHubShaResponse>(
+      'POST',
+      `/repos/${this.owner}/${this.repo}/git/blobs`,
+      { content: encodeBase64(content), encoding: 'base64' }
+    );
+    return blob.sha;
+  }
+  
+  /**
+   * Create a tree on top of an existing one and return its SHA
+   */
+  async createTree(baseTree: string, entries: GitHubTreeEntry[]): Promise<string> {
+    const tree = await this.request<GitHubShaResponse>(
+      'POST',
+      `/repos/${this.owner}/${this.repo}/git/trees`,
+      { base_tree: baseTree, tree: entries }
+    );
+    return tree.sha;
+  }
+  
+  /**
+   * Create a commit object and return its SHA
+   */
+  async createCommit(
+    message: string,
+    tree: string,
+    parents: string[],
+    author?: CommitIdentity
+  ): Promise<string> {
+    // GitHub copies the author into an omitted committer, date included,
+    // so a backdated author needs an explicit committer dated now
+    const identity = author
+      ? { author, committer: { name: author.name, email: author.email, date: new Date().toISOString() } }
+      : {};
+    const commit = await this.request<GitHubShaResponse>(
+      'POST',
+      `/repos/${this.owner}/${this.repo}/git/commits`,
+      { message, tree, parents, ...identity }
+    );
+    return commit.sha;
+  }
+  
+  /**
+   * Move a branch to a new commit (fast-forward only)
+   */
+  async updateBranch(branch: string, sha: string, force = false): Promise<void> {
+    await this.request(
+      'PATCH',
+      `/repos/${this.owner}/${this.repo}/git/refs/heads/${encodeBranch(branch)}`,
+      { sha, force }
+    );
+  }
+  
+  /**
+   * Write several files, plus any moves and deletes, in a single commit
+   * using the Git Data API
    */
-  async verifyAccess(): Promise<{ valid: boolean; error?: string }> {
+  async commitFiles(
+    files: CommitFile[],
+    message: string,
+    branch: string,
+    options: CommitOptions = {}
+  ): Promise<string> {
+    // With a pinned parent the ref update fails (ShaConflictError) if the branch moved
+    const headSha = options.parentSha || await this.getBranchHead(branch);
+    const headCommit = await this.getCommit(headSha);
+    
+    const entries: GitHubTreeEntry[] = [];
+    
+    // Moves reuse the existing blob under the new path
+    if (options.moves?.length) {
+      const tree = await this.getTree(headSha);
+      const blobShas = new Map(tree.tree.map((node) => [node.path, node.sha]));
+      for (const move of options.moves) {
+        const sha = blobShas.get(move.from);
+        if (!sha) {
+          throw new NotFoundError(`${move.from} not found in ${headSha}`);
+        }
+        entries.push({ path: move.to, mode: '100644', type: 'blob', sha });
+        entries.push({ path: move.from, mode: '100644', type: 'blob', sha: null });
+      }
+    }
+    for (const path of options.deletes || []) {
+      entries.push({ path, mode: '100644', type: 'blob', sha: null });
+    }
+    
+    for (const file of files) {
+      const blobSha = await this.createBlob(file.content);
+      entries.push({ path: file.path, mode: '100644', type: 'blob', sha: blobSha });
+    }
+    
+    const treeSha = await this.createTree(headCommit.tree.sha, entries);
+    const commitSha = await this.createCommit(message, treeSha, [headSha], options.author);
+    await this.updateBranch(branch, commitSha);
+    
+    return commitSha;
+  }
+  
+  /**
+   * Get a branch, including whether it is protected
+   */
+  async getBranch(branch: string): Promise<GitHubBranchResponse> {
+    return this.request<GitHubBranchResponse>(
+      'GET',
+      `/repos/${this.owner}/${this.repo}/branches/${encodeBranch(branch)}`
+    );
+  }
+  
+  /**
+   * Current rate limit (doesn't count against it)
+   */
+  async getRateLimit(): Promise<GitHubRateLimitResponse> {
+    return this.request<GitHubRateLimitResponse>('GET', '/rate_limit');
+  }
+  
+  /**
+   * Create a branch pointing at a commit
+   */
+  async createBranch(branch: string, sha: string): Promise<void> {
+    await this.request(
+      'POST',
+      `/repos/${this.owner}/${this.repo}/git/refs`,
+      { ref: `refs/heads/${branch}`, sha }
+    );
+  }
+  
+  /**
+   * Compare two branches or commits
+   */
+  async compareCommits(base: string, head: string): Promise<GitHubCompareResponse> {
+    return this.request<GitHubCompareResponse>(
+      'GET',
+      `/repos/${this.owner}/${this.repo}/compare/${encodeBranch(base)}...${encodeBranch(head)}`
+    );
+  }
+  
+  /**
+   * Find the open pull request from a branch in this repo into `base`
+   */
+  async findOpenPullRequest(head: string, base: string): Promise<GitHubPullRequest | null> {
+    const pulls = await this.request<GitHubPullRequest[]>(
+      'GET',
+      `/repos/${this.owner}/${this.repo}/pulls?state=open&head=${encodeURIComponent(`${this.owner}:${head}`)}&base=${encodeURIComponent(base)}`
+    );
+    return pulls[0] || null;
+  }
+  
+  /**
+   * Find the most recently merged pull request from a branch in this repo into `base`
+   */
+  async findMergedPullRequest(head: string, base: string): Promise<GitHubPullRequest | null> {
+    const pulls = await this.request<GitHubPullRequest[]>(
+      'GET',
+      `/repos/${this.owner}/${this.repo}/pulls?state=closed&sort=updated&direction=desc&head=${encodeURIComponent(`${this.owner}:${head}`)}&base=${encodeURIComponent(base)}`
+    );
+    return pulls.find((pull) => pull.merged_at) || null;
+  }
+  
+  /**
+   * Open a pull request
+   */
+  async createPullRequest(
+    title: string,
+    head: string,
+    base: string,
+    body: string
+  ): Promise<GitHubPullRequest> {
+    return this.request<GitHubPullRequest>(
+      'POST',
+      `/repos/${this.owner}/${this.repo}/pulls`,
+      { title, head, base, body }
+    );
+  }
+  
+  /**
+   * Replace a pull request's description
+   */
+  async updatePullRequest(number: number, body: string): Promise<GitHubPullRequest> {
+    return this.request<GitHubPullRequest>(
+      'PATCH',
+      `/repos/${this.owner}/${this.repo}/pulls/${number}`,
+      { body }
+    );
+  }
+  
+  /**
+   * Merge a pull request now
+   */
+  async mergePullRequest(number: number): Promise<void> {
+    await this.request(
+      'PUT',
+      `/repos/${this.owner}/${this.repo}/pulls/${number}/merge`,
+      { merge_method: 'merge' }
+    );
+  }
+  
+  /**
+   * Turn on auto-merge so the pull request merges once checks pass.
+   * Only available through GraphQL; errors come back with a 200.
+   */
+  async enableAutoMerge(pullRequestNodeId: string): Promise<void> {
+    const result = await this.request<{ errors?: Array<{ message: string }> }>(
+      'POST',
+      this.apiBase === GITHUB_API_BASE ? '/graphql' : `${getWebBase(this.apiBase)}/api/graphql`,
+      {
+        query: `mutation($id: ID!) {
+          enablePullRequestAutoMerge(input: { pullRequestId: $id, mergeMethod: MERGE }) {
+            clientMutationId
+          }
+        }`,
+        variables: { id: pullRequestNodeId },
+      }
+    );
+    
+    if (result.errors?.length) {
+      throw new ValidationError(result.errors.map((error) => error.message).join('; '));
+    }
+  }
+  
+  /**
+   * Make sure a working branch exists, starting it from the base branch head.
+   * A branch left over from a merged pull request is moved up to the base
+   * so the next pull request doesn't start out behind, or re-propose
+   * squashed commits that still look ahead of it.
+   */
+  async prepareChangeBranch(branch: string, base: string): Promise<boolean> {
+    const baseHead = await this.getBranchHead(base);
+    
+    let head: string;
+    try {
+      head = await this.getBranchHead(branch);
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+      await this.createBranch(branch, baseHead);
+      return true;
+    }
+    
+    if (await this.findOpenPullRequest(branch, base)) {
+      return false;
+    }
+    
+    // Nothing new since the merge, so starting over loses nothing
+    if ((await this.findMergedPullRequest(branch, base))?.head.sha === head) {
+      await this.updateBranch(branch, baseHead, true);
+      return false;
+    }
+    
+    const comparison = await this.compareCommits(base, branch);
+    if (comparison.ahead_by === 0 && comparison.behind_by > 0) {
+      await this.updateBranch(branch, baseHead);
+    }
+    return false;
+  }
+  
+  /**
+   * Open a pull request, or add the missing lines to the one already open,
+   * then turn on auto-merge if asked
+   */
+  async openChangeRequest(options: ChangeRequestOptions): Promise<ChangeRequestResult> {
+    let pull = await this.findOpenPullRequest(options.sourceBranch, options.targetBranch);
+    let created = false;
+    let added = options.lines.length;
+    
+    if (pull) {
+      const body = pull.body || options.header;
+      const missing = options.lines.filter((line) => !body.includes(line));
+      added = missing.length;
+      if (missing.length > 0) {
+        pull = await this.updatePullRequest(pull.number, [body, ...missing].join('\n'));
+      }
+    } else {
+      pull = await this.createPullRequest(
+        options.title,
+        options.sourceBranch,
+        options.targetBranch,
+        [options.header, ...options.lines].join('\n')
+      );
+      created = true;
+    }
+    
+    const result: ChangeRequestResult = { number: pull.number, url: pull.html_url, created, added, merged: false };
+    if (!options.autoMerge) {
+      return result;
+    }
+    
     try {
-      await this.request('GET', `/repos/${this.owner}/${this.repo}`);
-      return { valid: true };
+      await this.enableAutoMerge(pull.node_id);
     } catch (error) {
+      // Auto-merge can't be enabled on a pull request that is already
+      // mergeable (no required checks), so merge those straight away
       const message = error instanceof Error ? error.message : 'Unknown error';
-      return { valid: false, error: message };
+      if (!message.toLowerCase().includes('clean status')) {
+        result.autoMergeError = message;
+        return result;
+      }
+      
+      try {
+        await this.mergePullRequest(pull.number);
+        result.merged = true;
+      } catch (mergeError) {
+        result.autoMergeError = mergeError instanceof Error ? mergeError.message : 'Unknown error';
+      }
     }
+    return result;
   }
-}
-
-/**
- * Commit a solution file to GitHub with retry logic
- */
-export async function commitSolutionFile(
-  token: string,
-  repoFullName: string,
-  branch: string,
-  filePath: string,
-  content: string,
-  commitMessage: string,
-  overwrite: boolean = true
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    const client = new GitHubClient(token, repoFullName);
-    
-    // Check if file exists
-    const existing = await client.getFile(filePath, branch);
-    
-    if (existing && !overwrite) {
-      await logger.info(`File already exists, skipping: ${filePath}`);
-      return { success: true };
-    }
-    
-    await client.createOrUpdateFile(
-      filePath,
-      content,
-      commitMessage,
-      branch,
-      existing?.sha
-    );
+  
+  /**
+   * Get the user the token belongs to
+   */
+  async getAuthenticatedUser(): Promise<GitHubUserResponse> {
+    return this.request<GitHubUserResponse>('GET', '/user');
+  }
+  
+  /**
+   * Author identity for backdated commits: the configured name and email,
+   * otherwise the token owner's (noreply address if their email is private)
+   */
+  async getCommitIdentity(authorName: string, authorEmail: string): Promise<CommitIdentity> {
+    if (authorName && authorEmail) {
+      return { name: authorName, email: authorEmail };
+    }
+    
+    if (!this.user) {
+      this.user = await this.getAuthenticatedUser();
+    }
+    return {
+      name: authorName || this.user.name || this.user.login,
+      email: authorEmail || this.user.email ||
+        `${this.user.id}+${this.user.login}@users.noreply.${new URL(getWebBase(this.apiBase)).host}`,
+    };
+  }
+  
+  /**
+   * Get repository details, including the token's permissions on it
+   */
+  async getRepository(): Promise<GitHubRepoResponse> {
+    return this.request<GitHubRepoResponse>('GET', `/repos/${this.owner}/${this.repo}`);
+  }
+  
+  /**
+   * Create this repository (private) under the token owner's account
+   */
+  async createRepository(): Promise<GitHubRepoResponse> {
+    const user = await this.getAuthenticatedUser();
+    if (user.login.toLowerCase() !== this.owner.toLowerCase()) {
+      throw new ValidationError(
+        `Can only create repositories under your own account (${user.login}), not ${this.owner}`
+      );
+    }
+    
+    return this.request<GitHubRepoResponse>('POST', '/user/repos', {
+      name: this.repo,
+      private: true,
+      description: 'NeetCode solutions synced by NeetSync',
+    });
+  }
+  
+  /**
+   * Verify token and repo access, setting up what's missing along the way:
+   * the repository (when allowed), a first commit in an empty repository,
+   * and the branch, created from the default branch.
+   */
+  async verifyAccess(options: BootstrapOptions): Promise<BootstrapResult> {
+    const created: string[] = [];
     
-    await logger.success(`Committed: ${filePath}`);
-    return { success: true };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    await logger.error(`Failed to commit ${filePath}`, message);
-    return { success: false, error: message };
+    try {
+      let repository: GitHubRepoResponse;
+      try {
+        repository = await this.getRepository();
+      } catch (error) {
+        if (!(error instanceof NotFoundError) || !options.createRepository) {
+          throw error;
+        }
+        repository = await this.createRepository();
+        created.push(`repository ${this.owner}/${this.repo}`);
+      }
+      
+      const defaultBranch = repository.default_branch;
+      let defaultHead: string;
+      try {
+        defaultHead = await this.getBranchHead(defaultBranch);
+      } catch (error) {
+        // An empty repository answers 409 (or 404) and the Git Data API
+        // refuses to work in it, so seed it through the Contents API
+        if (!(error instanceof ShaConflictError) && !(error instanceof NotFoundError)) {
+          throw error;
+        }
+        for (const file of options.initialFiles) {
+          await this.createOrUpdateFile(file.path, file.content, `🎉 Add ${file.path}`, defaultBranch);
+          created.push(file.path);
+        }
+        defaultHead = await this.getBranchHead(defaultBranch);
+      }
+      
+      if (options.branch !== defaultBranch) {
+        try {
+          await this.getBranchHead(options.branch);
+        } catch (error) {
+          if (!(error instanceof NotFoundError)) {
+            throw error;
+          }
+          await this.createBranch(options.branch, defaultHead);
+          created.push(`branch ${options.branch}`);
+        }
+      }
+      
+      return { valid: true, created };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { valid: false, error: message, created };
+    }
   }
 }
@@ -0,0 +1,518 @@
+// GitLab REST v4 client for NeetSync
+
+import type {
+  BootstrapOptions,
+  BootstrapResult,
+  ChangeRequestOptions,
+  ChangeRequestResult,
+  CommitFile,
+  CommitIdentity,
+  CommitOptions,
+  CommitSummary,
+  GitLabBranchResponse,
+  GitLabCommit,
+  GitLabCommitAction,
+  GitLabCompareResponse,
+  GitLabFileResponse,
+  GitLabMergeRequest,
+  GitLabProjectResponse,
+  GitLabTreeItem,
+  GitLabUserResponse,
+  GitProvider,
+  RepoFile,
+  RepoTree,
+  Settings,
+} from './types';
+import { scheduler, encodeBase64, decodeBase64, parseRetryAfter } from './github';
+import {
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  ShaConflictError,
+  ValidationError,
+  errorFromResponse,
+} from './errors';
+
+const GITLAB_API_BASE = 'https://gitlab.com/api/v4';
+const GITLAB_API_PATH = '/api/v4';
+const RATE_LIMIT_DELAY = 60000; // 1 minute when GitLab gives no hint
+const TREE_PAGE_SIZE = 100;
+const MAX_TREE_PAGES = 50;
+
+/**
+ * REST API base for the configured GitLab host; /api/v4 is added
+ * if only the host was entered
+ */
+export function getGitLabApiBase(settings: Pick<Settings, 'apiBaseUrl'>): string {
+  let base = (settings.apiBaseUrl || '').trim().replace(/\/+$/, '');
+  if (!base) {
+    return GITLAB_API_BASE;
+  }
+  if (!/^https?:\/\//.test(base)) {
+    base = `https://${base}`;
+  }
+  if (!base.endsWith(GITLAB_API_PATH)) {
+    base += GITLAB_API_PATH;
+  }
+  return base;
+}
+
+/**
+ * Web host matching a GitLab API base
+ */
+export function getGitLabWebBase(apiBase: string): string {
+  return apiBase.endsWith(GITLAB_API_PATH) ? apiBase.slice(0, -GITLAB_API_PATH.length) : apiBase;
+}
+
+/**
+ * When a 429 lets requests continue: Retry-After, else RateLimit-Reset
+ */
+function getResumeTime(response: Response): number {
+  const retryAt = parseRetryAfter(response);
+  if (retryAt !== null) {
+    return retryAt;
+  }
+  
+  const reset = response.headers.get('RateLimit-Reset');
+  if (reset) {
+    return parseInt(reset, 10) * 1000;
+  }
+  
+  return Date.now() + RATE_LIMIT_DELAY;
+}
+
+/**
+ * GitLab project client. `repoFullName` is the project path,
+ * which may include subgroups (group/subgroup/project).
+ */
+export class GitLabClient implements GitProvider {
+  readonly name = 'GitLab';
+  readonly changeRequestName = 'merge request';
+  private token: string;
+  private projectPath: string;
+  private apiBase: string;
+  private user: GitLabUserResponse | null = null;
+  
+  constructor(token: string, repoFullName: string, apiBase = GITLAB_API_BASE) {
+    this.token = token;
+    this.projectPath = repoFullName;
+    this.apiBase = apiBase;
+  }
+  
+  /**
+   * Path prefix for project endpoints; the project path is URL-encoded as its ID
+   */
+  private get project(): string {
+    return `/projects/${encodeURIComponent(this.projectPath)}`;
+  }
+  
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    const headers: Record<string, string> = {
+      'Accept': 'application/json',
+      'PRIVATE-TOKEN': this.token,
+    };
+    
+    if (body) {
+      headers['Content-Type'] = 'application/json';
+    }
+    
+    // Shares the scheduler with GitHub so a pause holds back the queue either way
+    await scheduler.acquire();
+    
+    let response: Response;
+    try {
+      response = await fetch(`${this.apiBase}${path}`, {
+        method,
+        headers,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new NetworkError(`GitLab request failed: ${message}`);
+    }
+    
+    if (!response.ok) {
+      const errorText = await response.text();
+      
+      if (response.status === 429) {
+        const resumeAt = getResumeTime(response);
+        await scheduler.pause(resumeAt);
+        throw new RateLimitedError(
+          resumeAt,
+          `GitLab rate limit reached, paused until ${new Date(resumeAt).toISOString()}`,
+          response.status
+        );
+      }
+      
+      throw errorFromResponse(response.status, errorText, 'GitLab');
+    }
+    
+    // Handle 204 No Content
+    if (response.status === 204) {
+      return {} as T;
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Get a file's metadata and Base64 content at a ref
+   */
+  private async getFileEntry(path: string, ref: string): Promise<GitLabFileResponse | null> {
+    try {
+      return await this.request<GitLabFileResponse>(
+        'GET',
+        `${this.project}/repository/files/${encodeURIComponent(path)}?ref=${encodeURIComponent(ref)}`
+      );
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Get a text file's decoded contents and blob id
+   */
+  async getFile(path: string, ref: string): Promise<RepoFile | null> {
+    const file = await this.getFileEntry(path, ref);
+    if (!file) {
+      return null;
+    }
+    return { sha: file.blob_id, text: decodeBase64(file.content || '') };
+  }
+  
+  /**
+   * Get the commit SHA a branch points to
+   */
+  async getBranchHead(branch: string): Promise<string> {
+    const result = await this.request<GitLabBranchResponse>(
+      'GET',
+      `${this.project}/repository/branches/${encodeURIComponent(branch)}`
+    );
+    return result.commit.id;
+  }
+  
+  /**
+   * List the most recent commits on a branch
+   */
+  async listCommits(branch: string, perPage = 30, page = 1): Promise<CommitSummary[]> {
+    const commits = await this.request<GitLabCommit[]>(
+      'GET',
+      `${this.project}/repository/commits?ref_name=${encodeURIComponent(branch)}&per_page=${perPage}&page=${page}`
+    );
+    return commits.map((commit) => ({ sha: commit.id, message: commit.message }));
+  }
+  
+  /**
+   * Every file path on a branch; the tree endpoint is paginated
+   */
+  async listFiles(ref: string): Promise<RepoTree> {
+    const paths: string[] = [];
+    
+    for (let page = 1; page <= MAX_TREE_PAGES; page++) {
+      const items = await this.request<GitLabTreeItem[]>(
+        'GET',
+        `${this.project}/repository/tree?ref=${encodeURIComponent(ref)}&recursive=true&per_page=${TREE_PAGE_SIZE}&page=${page}`
+      );
+      paths.push(...items.filter((item) => item.type === 'blob').map((item) => item.path));
+      if (items.length < TREE_PAGE_SIZE) {
+        return { paths, truncated: false };
+      }
+    }
+    
+    return { paths, truncated: true };
+  }
+  
+  /**
+   * Write several files, plus any moves and deletes, in a single commit
+   * using the commits API.
+   *
+   * GitLab can't pin a commit to a parent, so with `parentSha` each updated
+   * file is pinned to its last commit instead: if another device changed
+   * one of them since, GitLab rejects the commit (ShaConflictError).
+   * Commit dates can't be set; the author name and email are kept.
+   */
+  async commitFiles(
+    files: CommitFile[],
+    message: string,
+    branch: string,
+    options: CommitOptions = {}
+  ): Promise<string> {
+    const ref = options.parentSha || branch;
+    const actions: GitLabCommitAction[] = [];
+    
+    // The commits API needs to know whether each file is new
+    for (const file of files) {
+      const existing = await this.getFileEntry(file.path, ref);
+      const action: GitLabCommitAction = {
+        action: existing ? 'update' : 'create',
+        file_path: file.path,
+        content: encodeBase64(file.content),
+        encoding: 'base64',
+      };
+      if (existing && options.parentSha) {
+        action.last_commit_id = existing.last_commit_id;
+      }
+      actions.push(action);
+    }
+    for (const move of options.moves || []) {
+      actions.push({ action: 'move', file_path: move.to, previous_path: move.from });
+    }
+    for (const path of options.deletes || []) {
+      actions.push({ action: 'delete', file_path: path });
+    }
+    
+    try {
+      const commit = await this.request<GitLabCommit>('POST', `${this.project}/repository/commits`, {
+        branch,
+        commit_message: message,
+        actions,
+        ...(options.author
+          ? { author_name: options.author.name, author_email: options.author.email }
+          : {}),
+      });
+      return commit.id;
+    } catch (error) {
+      // Stale last_commit_id, or a file created in the meantime
+      if (
+        error instanceof ValidationError &&
+        /has changed since|already exists/i.test(error.message)
+      ) {
+        throw new ShaConflictError(error.message, error.status);
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Get the user the token belongs to
+   */
+  async getAuthenticatedUser(): Promise<GitLabUserResponse> {
+    if (!this.user) {
+      this.user = await this.request<GitLabUserResponse>('GET', '/user');
+    }
+    return this.user;
+  }
+  
+  /**
+   * Author identity for commits: the configured name and email,
+   * otherwise the token owner's (noreply address if none is public)
+   */
+  async getCommitIdentity(authorName: string, authorEmail: string): Promise<CommitIdentity> {
+    if (authorName && authorEmail) {
+      return { name: authorName, email: authorEmail };
+    }
+    
+    const user = await this.getAuthenticatedUser();
+    return {
+      name: authorName || user.name || user.username,
+      email: authorEmail || user.commit_email || user.public_email ||
+        `${user.id}-${user.username}@users.noreply.${new URL(getGitLabWebBase(this.apiBase)).host}`,
+    };
+  }
+  
+  /**
+   * Create this project (private) in the token owner's namespace
+   */
+  async createProject(): Promise<GitLabProjectResponse> {
+    const user = await this.getAuthenticatedUser();
+    const separator = this.projectPath.lastIndexOf('/');
+    const namespace = this.projectPath.substring(0, separator);
+    const name = this.projectPath.substring(separator + 1);
+    
+    if (namespace.toLowerCase() !== user.username.toLowerCase()) {
+      throw new ValidationError(
+        `Can only create projects under your own account (${user.username}), not ${namespace}`
+      );
+    }
+    
+    return this.request<GitLabProjectResponse>('POST', '/projects', {
+      name,
+      path: name,
+      visibility: 'private',
+      description: 'NeetCode solutions synced by NeetSync',
+    });
+  }
+  
+  /**
+   * Create a branch from another branch or commit
+   */
+  async createBranch(branch: string, ref: string): Promise<void> {
+    await this.request('POST', `${this.project}/repository/branches`, { branch, ref });
+  }
+  
+  /**
+   * Delete a branch
+   */
+  async deleteBranch(branch: string): Promise<void> {
+    await this.request('DELETE', `${this.project}/repository/branches/${encodeURIComponent(branch)}`);
+  }
+  
+  /**
+   * Verify token and project access, setting up what's missing along the way:
+   * the project (when allowed), a first commit in an empty project,
+   * and the branch, created from the default branch.
+   */
+  async verifyAccess(options: BootstrapOptions): Promise<BootstrapResult> {
+    const created: string[] = [];
+    
+    try {
+      let project: GitLabProjectResponse;
+      try {
+        project = await this.request<GitLabProjectResponse>('GET', this.project);
+      } catch (error) {
+        if (!(error instanceof NotFoundError) || !options.createRepository) {
+          throw error;
+        }
+        project = await this.createProject();
+        created.push(`project ${this.projectPath}`);
+      }
+      
+      // The commits API works on an empty project and creates the branch
+      let defaultBranch = project.default_branch || options.branch;
+      if (project.empty_repo) {
+        await this.commitFiles(options.initialFiles, '🎉 Set up NeetSync', defaultBranch);
+        created.push(...options.initialFiles.map((file) => file.path));
+      }
+      
+      if (options.branch !== defaultBranch) {
+        try {
+          await this.getBranchHead(options.branch);
+        } catch (error) {
+          if (!(error instanceof NotFoundError)) {
+            throw error;
+          }
+          await this.createBranch(options.branch, defaultBranch);
+          created.push(`branch ${options.branch}`);
+        }
+      }
+      
+      return { valid: true, created };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { valid: false, error: message, created };
+    }
+  }
+  
+  /**
+   * Find the open merge request from `source` into `target`
+   */
+  async findOpenMergeRequest(source: string, target: string): Promise<GitLabMergeRequest | null> {
+    const requests = await this.request<GitLabMergeRequest[]>(
+      'GET',
+      `${this.project}/merge_requests?state=opened&source_branch=${encodeURIComponent(source)}&target_branch=${encodeURIComponent(target)}`
+    );
+    return requests[0] || null;
+  }
+  
+  /**
+   * Find the most recently merged merge request from `source` into `target`
+   */
+  async findMergedMergeRequest(source: string, target: string): Promise<GitLabMergeRequest | null> {
+    const requests = await this.request<GitLabMergeRequest[]>(
+      'GET',
+      `${this.project}/merge_requests?state=merged&order_by=updated_at&source_branch=${encodeURIComponent(source)}&target_branch=${encodeURIComponent(target)}`
+    );
+    return requests[0] || null;
+  }
+  
+  /**
+   * Make sure a working branch exists, starting it from the base branch.
+   * GitLab can't move a branch, so one left over from a merged merge request
+   * with nothing new on it is recreated from the base instead. That includes
+   * a squash merge, whose commits still look ahead of the base.
+   */
+  async prepareChangeBranch(branch: string, base: string): Promise<boolean> {
+    let head: string;
+    try {
+      head = await this.getBranchHead(branch);
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+      await this.createBranch(branch, base);
+      return true;
+    }
+    
+    if (await this.findOpenMergeRequest(branch, base)) {
+      return false;
+    }
+    
+    if ((await this.findMergedMergeRequest(branch, base))?.sha === head) {
+      await this.deleteBranch(branch);
+      await this.createBranch(branch, base);
+      return false;
+    }
+    
+    const comparison = await this.request<GitLabCompareResponse>(
+      'GET',
+      `${this.project}/repository/compare?from=${encodeURIComponent(base)}&to=${encodeURIComponent(branch)}`
+    );
+    if (comparison.commits.length === 0 && head !== await this.getBranchHead(base)) {
+      await this.deleteBranch(branch);
+      await this.createBranch(branch, base);
+    }
+    return false;
+  }
+  
+  /**
+   * Open a merge request, or add the missing lines to the one already open,
+   * then set it to merge when its pipeline succeeds if asked
+   */
+  async openChangeRequest(options: ChangeRequestOptions): Promise<ChangeRequestResult> {
+    let mergeRequest = await this.findOpenMergeRequest(options.sourceBranch, options.targetBranch);
+    let created = false;
+    let added = options.lines.length;
+    
+    if (mergeRequest) {
+      const description = mergeRequest.description || options.header;
+      const missing = options.lines.filter((line) => !description.includes(line));
+      added = missing.length;
+      if (missing.length > 0) {
+        mergeRequest = await this.request<GitLabMergeRequest>(
+          'PUT',
+          `${this.project}/merge_requests/${mergeRequest.iid}`,
+          { description: [description, ...missing].join('\n') }
+        );
+      }
+    } else {
+      mergeRequest = await this.request<GitLabMergeRequest>('POST', `${this.project}/merge_requests`, {
+        source_branch: options.sourceBranch,
+        target_branch: options.targetBranch,
+        title: options.title,
+        description: [options.header, ...options.lines].join('\n'),
+      });
+      created = true;
+    }
+    
+    const result: ChangeRequestResult = {
+      number: mergeRequest.iid,
+      url: mergeRequest.web_url,
+      created,
+      added,
+      merged: false,
+    };
+    if (!options.autoMerge) {
+      return result;
+    }
+    
+    // Without a pipeline GitLab merges straight away
+    try {
+      const merged = await this.request<GitLabMergeRequest>(
+        'PUT',
+        `${this.project}/merge_requests/${mergeRequest.iid}/merge`,
+        { merge_when_pipeline_succeeds: true }
+      );
+      result.merged = merged.state === 'merged';
+    } catch (error) {
+      result.autoMergeError = error instanceof Error ? error.message : 'Unknown error';
+    }
+    return result;
+  }
+}
@@ -0,0 +1,178 @@
+// Commit trailers and progress rebuild from git history for NeetSync
+
+import type { CommitTrailerRecord, Progress, QueueItem } from './types';
+import {
+  getSettings,
+  getToken,
+  getMapping,
+  saveProgress,
+  recordSolve,
+  setProgressImportedFrom,
+  acquireQueueLease,
+  releaseQueueLease,
+} from './storage';
+import { createProvider, getTargetKey, isSyncConfigured } from './provider';
+import { buildProgressFiles } from './progress';
+import { renderMessageTemplate, sha256, slugToTitle } from './normalize';
+import { logger } from './logger';
+import { getSyncBranch, prepareSyncBranch, submitSyncBranch } from './pulls';
+
+const COMMITS_PER_PAGE = 100;
+const MAX_HISTORY_PAGES = 50;
+const LEASE_TTL = 10 * 60000; // 10 minutes
+
+/**
+ * Build the NeetSync-* trailer lines for one solved item
+ */
+export async function buildItemTrailers(
+  item: QueueItem,
+  difficulty?: string
+): Promise<string[]> {
+  const lines = [
+    `NeetSync-Slug: ${item.slug}`,
+    `NeetSync-Title: ${item.title}`,
+    `NeetSync-Language: ${item.language}`,
+  ];
+  if (difficulty) {
+    lines.push(`NeetSync-Difficulty: ${difficulty}`);
+  }
+  lines.push(`NeetSync-Solved-At: ${new Date(item.at).toISOString()}`);
+  lines.push(`NeetSync-Hash: ${await sha256(item.slug + item.language + item.code)}`);
+  return lines;
+}
+
+/**
+ * Parse every solve recorded in a commit message's trailers.
+ * Each NeetSync-Slug starts a new record, so batch commits yield several.
+ */
+export function parseCommitTrailers(message: string): CommitTrailerRecord[] {
+  const records: CommitTrailerRecord[] = [];
+  let current: Partial<CommitTrailerRecord> | null = null;
+  
+  const finish = () => {
+    if (current?.slug && current.language && current.solvedAt && current.sha256) {
+      records.push(current as CommitTrailerRecord);
+    }
+  };
+  
+  for (const line of message.split('\n')) {
+    const match = line.match(/^NeetSync-([A-Za-z-]+):\s*(.*)$/);
+    if (!match) continue;
+    
+    const [, key, value] = match;
+    switch (key) {
+      case 'Slug':
+        finish();
+        current = { slug: value.trim() };
+        break;
+      case 'Title':
+        if (current) current.title = value.trim();
+        break;
+      case 'Language':
+        if (current) current.language = value.trim();
+        break;
+      case 'Difficulty':
+        if (current) current.difficulty = value.trim();
+        break;
+      case 'Solved-At': {
+        const time = Date.parse(value.trim());
+        if (current && !isNaN(time)) current.solvedAt = time;
+        break;
+      }
+      case 'Hash':
+        if (current) current.sha256 = value.trim();
+        break;
+    }
+  }
+  finish();
+  
+  return records;
+}
+
+/**
+ * Walk the branch history and rebuild progress from commit trailers,
+ * then overwrite the progress files in the repo with the result.
+ */
+export async function rebuildProgressFromHistory(): Promise<{
+  success: boolean;
+  solved?: number;
+  commits?: number;
+  error?: string;
+}> {
+  const settings = await getSettings();
+  const token = await getToken();
+  
+  if (!isSyncConfigured(settings, token)) {
+    return { success: false, error: 'Repository not configured' };
+  }
+  if (settings.provider === 'LOCAL') {
+    return { success: false, error: 'A local folder has no commit history to rebuild from' };
+  }
+  
+  const owner = `rebuild-${Date.now()}`;
+  if (!(await acquireQueueLease(owner, LEASE_TTL))) {
+    return { success: false, error: 'Queue is being processed, try again shortly' };
+  }
+  
+  try {
+    const provider = createProvider(token, settings);
+    const mapping = await getMapping();
+    const branch = getSyncBranch(settings);
+    const records: CommitTrailerRecord[] = [];
+    let commitCount = 0;
+    
+    // The working branch also holds solves its pull request hasn't merged yet
+    await prepareSyncBranch(provider, settings, branch);
+    for (let page = 1; page <= MAX_HISTORY_PAGES; page++) {
+      const commits = await provider.listCommits(branch, COMMITS_PER_PAGE, page);
+      commitCount += commits.length;
+      for (const commit of commits) {
+        records.push(...parseCommitTrailers(commit.message));
+      }
+      if (commits.length < COMMITS_PER_PAGE) break;
+    }
+    
+    // Replay oldest first so attempts and "latest" come out in order
+    records.sort((a, b) => a.solvedAt - b.solvedAt);
+    
+    const progress: Progress = { solved: {} };
+    for (const record of records) {
+      const mappingEntry = mapping.entries[record.slug];
+      recordSolve(progress, record.slug, {
+        title: record.title || mappingEntry?.title || slugToTitle(record.slug),
+        category: mappingEntry?.category,
+        listName: mappingEntry?.listName,
+        difficulty: record.difficulty || mappingEntry?.difficulty,
+        language: record.language,
+        solvedAt: record.solvedAt,
+        sha256: record.sha256,
+      });
+    }
+    
+    // History is the source of truth here, so don't merge the remote file back in
+    await provider.commitFiles(
+      buildProgressFiles(settings, progress, mapping),
+      renderMessageTemplate(settings.progressCommitTemplate, {
+        solved: String(Object.keys(progress.solved).length),
+      }),
+      branch
+    );
+    
+    await saveProgress(progress);
+    await setProgressImportedFrom(getTargetKey(settings));
+    await submitSyncBranch(provider, settings, branch, [], progress);
+    
+    const solved = Object.keys(progress.solved).length;
+    await logger.success(
+      `Rebuilt progress from history: ${solved} problems`,
+      `${records.length} solves found in ${commitCount} commits`
+    );
+    return { success: true, solved, commits: commitCount };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await logger.error('Failed to rebuild progress from history', message);
+    return { success: false, error: message };
+  } finally {
+    await releaseQueueLease(owner);
+  }
+}
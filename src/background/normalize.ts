@@ -1,6 +1,6 @@
 // Path normalization and organization for NeetSync
 
-import type { Settings, MappingEntry } from './types';
+import type { Settings, MappingEntry, VersioningMode } from './types';
 import { getExtension } from './types';
 
 /**
@@ -51,6 +51,205 @@ export function normalizeDifficulty(difficulty?: string): string | undefined {
   return undefined;
 }
 
+// Path template tokens, e.g. {baseDir}/{list:Problems}/{category|kebab:Unsorted}/{index|pad3}_{title}.{ext}
+const TEMPLATE_TOKENS = [
+  'baseDir',
+  'list',
+  'category',
+  'difficulty',
+  'slug',
+  'title',
+  'language',
+  'ext',
+  'index',
+] as const;
+
+type TemplateToken = typeof TEMPLATE_TOKENS[number];
+
+const CASE_TRANSFORMS = ['snake', 'kebab', 'pascal', 'lower', 'upper'];
+const TEMPLATE_PATTERN = /\{([^{}]*)\}/g;
+
+interface TemplatePart {
+  token: string;
+  transforms: string[];
+  fallback?: string;
+}
+
+/**
+ * Split the inside of `{...}` into token, transforms and fallback
+ */
+function parseTemplatePart(inner: string): TemplatePart {
+  const colonIndex = inner.indexOf(':');
+  const spec = colonIndex === -1 ? inner : inner.substring(0, colonIndex);
+  const fallback = colonIndex === -1 ? undefined : inner.substring(colonIndex + 1);
+  const [token, ...transforms] = spec.split('|').map((piece) => piece.trim());
+  return { token, transforms, fallback };
+}
+
+/**
+ * Split a value into words for case transforms
+ */
+function splitWords(value: string): string[] {
+  return value
+    .replace(/&/g, ' And ')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+function applyTransform(value: string, transform: string): string {
+  const padMatch = transform.match(/^pad(\d+)$/);
+  if (padMatch) {
+    return /^\d+$/.test(value) ? value.padStart(parseInt(padMatch[1], 10), '0') : value;
+  }
+  
+  switch (transform) {
+    case 'snake':
+      return splitWords(value).map((word) => word.toLowerCase()).join('_');
+    case 'kebab':
+      return splitWords(value).map((word) => word.toLowerCase()).join('-');
+    case 'pascal':
+      return splitWords(value)
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+        .join('');
+    case 'lower':
+      return value.toLowerCase();
+    case 'upper':
+      return value.toUpperCase();
+    default:
+      return value;
+  }
+}
+
+/**
+ * Check braces, tokens and transforms shared by every kind of template.
+ * Returns the tokens used; problems are added to `errors`.
+ */
+function checkTemplateParts(template: string, known: readonly string[], errors: string[]): Set<string> {
+  const stripped = template.replace(TEMPLATE_PATTERN, '');
+  if (stripped.includes('{') || stripped.includes('}')) {
+    errors.push('Unbalanced braces');
+  }
+  
+  const tokens = new Set<string>();
+  for (const match of template.matchAll(TEMPLATE_PATTERN)) {
+    const part = parseTemplatePart(match[1]);
+    tokens.add(part.token);
+    
+    if (!known.includes(part.token)) {
+      errors.push(`Unknown token {${part.token}}`);
+    }
+    for (const transform of part.transforms) {
+      if (!CASE_TRANSFORMS.includes(transform) && !/^pad\d+$/.test(transform)) {
+        errors.push(`Unknown transform "${transform}" in {${match[1]}}`);
+      }
+    }
+  }
+  
+  return tokens;
+}
+
+/**
+ * Check a path template; returns a list of problems (empty when valid)
+ */
+export function validatePathTemplate(template: string): string[] {
+  const errors: string[] = [];
+  
+  if (!template.trim()) {
+    return ['Template is empty'];
+  }
+  
+  const tokens = checkTemplateParts(template, TEMPLATE_TOKENS, errors);
+  
+  if (!tokens.has('ext')) {
+    errors.push('Template must include {ext}');
+  }
+  if (!tokens.has('slug') && !tokens.has('title')) {
+    errors.push('Template must include {slug} or {title} so files don\'t collide');
+  }
+  if (template.startsWith('/')) {
+    errors.push('Template must be relative (no leading /)');
+  }
+  if (template.split('/').includes('..')) {
+    errors.push('Template must not contain ".."');
+  }
+  
+  return errors;
+}
+
+/**
+ * Render a path template; empty segments are dropped
+ */
+export function renderPathTemplate(
+  template: string,
+  values: Partial<Record<TemplateToken, string>>
+): string {
+  const rendered = template.replace(TEMPLATE_PATTERN, (_match, inner: string) => {
+    const part = parseTemplatePart(inner);
+    let value = values[part.token as TemplateToken] || '';
+    
+    if (!value) {
+      return part.fallback ? sanitize(part.fallback) : '';
+    }
+    
+    for (const transform of part.transforms) {
+      value = applyTransform(value, transform);
+    }
+    return part.token === 'baseDir' ? value : value.replace(/[<>:"/\\|?*]/g, '');
+  });
+  
+  return rendered
+    .split('/')
+    .filter((segment) => segment.length > 0)
+    .join('/');
+}
+
+// Commit message template tokens, e.g. feat({category|kebab}): solve {slug} [{language}, {runtime:n/a}]
+export const MESSAGE_TOKENS = [
+  'title',
+  'slug',
+  'difficulty',
+  'category',
+  'list',
+  'language',
+  'runtime',
+  'memory',
+] as const;
+export const BATCH_MESSAGE_TOKENS = ['count'] as const;
+export const PROGRESS_MESSAGE_TOKENS = ['solved'] as const;
+
+/**
+ * Check a commit message template against the tokens it may use
+ */
+export function validateMessageTemplate(template: string, known: readonly string[]): string[] {
+  if (!template.trim()) {
+    return ['Template is empty'];
+  }
+  
+  const errors: string[] = [];
+  checkTemplateParts(template, known, errors);
+  return errors;
+}
+
+/**
+ * Render a commit message template; unlike paths, values are used as they are
+ */
+export function renderMessageTemplate(template: string, values: Record<string, string | undefined>): string {
+  return template.replace(TEMPLATE_PATTERN, (_match, inner: string) => {
+    const part = parseTemplatePart(inner);
+    let value = values[part.token] || '';
+    
+    if (!value) {
+      return part.fallback || '';
+    }
+    
+    for (const transform of part.transforms) {
+      value = applyTransform(value, transform);
+    }
+    return value;
+  }).trim();
+}
+
 /**
  * Build the file path based on settings and available metadata
  */
@@ -62,6 +261,10 @@ export function buildFilePath(
   mappingEntry?: MappingEntry,
   difficulty?: string
 ): string {
+  if (settings.organizationMode === 'TEMPLATE') {
+    return buildTemplatePath(settings, slug, title, language, mappingEntry, difficulty);
+  }
+  
   const parts: string[] = [settings.baseDir];
   
   const category = mappingEntry?.category;
@@ -123,6 +326,76 @@ export function buildFilePath(
   return parts.join('/');
 }
 
+/**
+ * Build the file path from the user's path template
+ */
+function buildTemplatePath(
+  settings: Settings,
+  slug: string,
+  title: string,
+  language: string,
+  mappingEntry?: MappingEntry,
+  difficulty?: string
+): string {
+  const listName = mappingEntry?.listName;
+  const category = mappingEntry?.category;
+  
+  // Values get the same cleanup as the built-in modes; case transforms work on top
+  return renderPathTemplate(settings.pathTemplate, {
+    baseDir: settings.baseDir,
+    list: listName ? normalizeListName(listName) : '',
+    category: category ? normalizeCategory(category) : '',
+    difficulty: normalizeDifficulty(difficulty || mappingEntry?.difficulty) || '',
+    slug,
+    title: sanitize(title || slugToTitle(slug)),
+    language,
+    ext: getExtension(language),
+    index: mappingEntry?.listIndex !== undefined ? String(mappingEntry.listIndex) : '',
+  });
+}
+
+/**
+ * Build the path for a repeat accept so earlier versions are kept
+ */
+export function buildVersionedPath(
+  basePath: string,
+  mode: VersioningMode,
+  version: number,
+  solvedAt: number
+): string {
+  if (mode === 'NONE' || version <= 1) {
+    return basePath;
+  }
+  
+  const slashIndex = basePath.lastIndexOf('/');
+  const dir = basePath.substring(0, slashIndex);
+  const filename = basePath.substring(slashIndex + 1);
+  const dotIndex = filename.lastIndexOf('.');
+  const stem = filename.substring(0, dotIndex);
+  const ext = filename.substring(dotIndex + 1);
+  
+  switch (mode) {
+    case 'SUFFIX':
+      return `${dir}/${stem}.v${version}.${ext}`;
+    
+    case 'HISTORY':
+      return `${dir}/history/${stem}.v${version}.${ext}`;
+    
+    case 'TIMESTAMP': {
+      // 2024-01-31T12:34:56.789Z -> 20240131-123456
+      const stamp = new Date(solvedAt).toISOString().replace(/[-:]/g, '').replace('T', '-').substring(0, 15);
+      return `${dir}/${stem}.${stamp}.${ext}`;
+    }
+  }
+}
+
+/**
+ * Whether a path looks like one buildVersionedPath made for a repeat accept
+ */
+export function isVersionedPath(path: string): boolean {
+  return /\.(v\d+|\d{8}-\d{6})\.[^./]+$/.test(path);
+}
+
 /**
  * Generate metadata header for code file
  */
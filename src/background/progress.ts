@@ -1,17 +1,49 @@
 // Progress file management for NeetSync
 
-import type { Progress, Mapping, Settings } from './types';
-import { GitHubClient } from './github';
+import type {
+  Progress,
+  Mapping,
+  Settings,
+  SolvedEntry,
+  SolveAttempt,
+  LanguageSolution,
+  CommitFile,
+  CommitOptions,
+  GitProvider,
+} from './types';
+import { createProvider, getTargetKey, getTargetName } from './provider';
+import { PRIMARY_TARGET_ID, filterProgressForTarget } from './targets';
+import { ProgressFileError, ShaConflictError } from './errors';
 import { logger } from './logger';
-import { slugToTitle, normalizeCategory, normalizeListName } from './normalize';
+import { getSyncBranch, prepareSyncBranch, submitSyncBranch } from './pulls';
+import { slugToTitle, normalizeCategory, normalizeListName, renderMessageTemplate } from './normalize';
+import {
+  getProgress,
+  saveProgress,
+  migrateSolvedEntry,
+  getProgressImportedFrom,
+  setProgressImportedFrom,
+  acquireQueueLease,
+  releaseQueueLease,
+} from './storage';
+
+const MAX_CONFLICT_RETRIES = 3;
+const LEASE_TTL = 5 * 60000; // 5 minutes
 
 /**
  * Generate PROGRESS.json content
  */
 export function generateProgressJson(progress: Progress): string {
+  const languageStats = getLanguageStats(progress);
+  
   return JSON.stringify(
     {
       updatedAt: Date.now(),
+      stats: {
+        total: Object.keys(progress.solved).length,
+        byLanguage: languageStats.byLanguage,
+        byLanguageCount: languageStats.byLanguageCount,
+      },
       solved: progress.solved,
     },
     null,
@@ -19,6 +51,27 @@ export function generateProgressJson(progress: Progress): string {
   );
 }
 
+/**
+ * Count problems per language and problems solved in N languages
+ */
+function getLanguageStats(progress: Progress): {
+  byLanguage: Record<string, number>;
+  byLanguageCount: Record<number, number>;
+} {
+  const byLanguage: Record<string, number> = {};
+  const byLanguageCount: Record<number, number> = {};
+  
+  for (const entry of Object.values(progress.solved)) {
+    const languages = getLanguages(entry);
+    for (const language of languages) {
+      byLanguage[language] = (byLanguage[language] || 0) + 1;
+    }
+    byLanguageCount[languages.length] = (byLanguageCount[languages.length] || 0) + 1;
+  }
+  
+  return { byLanguage, byLanguageCount };
+}
+
 /**
  * Generate PROGRESS.md content
  */
@@ -45,17 +98,17 @@ export function generateProgressMd(
   if (recentlySolved.length > 0) {
     lines.push('## 🕐 Recently Solved');
     lines.push('');
-    lines.push('| Problem | Difficulty | Language | Solved At |');
-    lines.push('|---------|------------|----------|-----------|');
+    lines.push('| Problem | Difficulty | Languages | Accepts | Solved At |');
+    lines.push('|---------|------------|----------|---------|-----------|');
     
     for (const item of recentlySolved) {
       const title = item.title || slugToTitle(item.slug);
       const difficulty = item.difficulty || '-';
-      const lang = item.language || '-';
+      const lang = getLanguages(item).join(', ') || '-';
       const date = new Date(item.solvedAt).toLocaleDateString();
       const url = `https://neetcode.io/problems/${item.slug}`;
       
-      lines.push(`| [${title}](${url}) | ${difficulty} | ${lang} | ${date} |`);
+      lines.push(`| [${title}](${url}) | ${difficulty} | ${lang} | ${getAcceptCount(item)} | ${date} |`);
     }
     lines.push('');
   }
@@ -110,8 +163,7 @@ export function generateProgressMd(
         lines.push('');
         
         for (const item of items.sort((a, b) => a.title.localeCompare(b.title))) {
-          const diffBadge = getDifficultyBadge(item.difficulty);
-          lines.push(`- [${item.title}](https://neetcode.io/problems/${item.slug}) ${diffBadge}`);
+          lines.push(formatProblemLine(item));
         }
         lines.push('');
       }
@@ -129,8 +181,7 @@ export function generateProgressMd(
       lines.push('');
       
       for (const item of byCategory[categoryName].sort((a, b) => a.title.localeCompare(b.title))) {
-        const diffBadge = getDifficultyBadge(item.difficulty);
-        lines.push(`- [${item.title}](https://neetcode.io/problems/${item.slug}) ${diffBadge}`);
+        lines.push(formatProblemLine(item));
       }
       lines.push('');
     }
@@ -142,8 +193,7 @@ export function generateProgressMd(
     lines.push('');
     
     for (const item of unsorted.sort((a, b) => a.title.localeCompare(b.title))) {
-      const diffBadge = getDifficultyBadge(item.difficulty);
-      lines.push(`- [${item.title}](https://neetcode.io/problems/${item.slug}) ${diffBadge}`);
+      lines.push(formatProblemLine(item));
     }
     lines.push('');
   }
@@ -169,14 +219,57 @@ export function generateProgressMd(
   if (difficulties.Unknown > 0) {
     lines.push(`- ⚪ Unknown: ${difficulties.Unknown}`);
   }
+  
+  const resolvedCount = slugs.filter((slug) => getAcceptCount(solved[slug]) > 1).length;
+  if (resolvedCount > 0) {
+    lines.push(`- 🔁 Re-solved: ${resolvedCount}`);
+  }
   lines.push('');
   
+  // Language coverage
+  const languageStats = getLanguageStats(progress);
+  const languageNames = Object.keys(languageStats.byLanguage).sort();
+  if (languageNames.length > 0) {
+    lines.push('### 🌐 Languages');
+    lines.push('');
+    for (const language of languageNames) {
+      lines.push(`- ${language}: ${languageStats.byLanguage[language]}`);
+    }
+    lines.push('');
+    
+    const counts = Object.keys(languageStats.byLanguageCount).map(Number).sort((a, b) => a - b);
+    for (const count of counts) {
+      const label = count === 1 ? '1 language' : `${count} languages`;
+      lines.push(`- Solved in ${label}: ${languageStats.byLanguageCount[count]}`);
+    }
+    lines.push('');
+  }
+  
   lines.push('---');
   lines.push('*Generated by [NeetSync](https://github.com/neetsync)*');
   
   return lines.join('\n');
 }
 
+function formatProblemLine(item: SolvedEntry & { slug: string }): string {
+  const diffBadge = getDifficultyBadge(item.difficulty);
+  const languages = getLanguages(item).join(', ');
+  return `- [${item.title}](https://neetcode.io/problems/${item.slug}) ${diffBadge}${getResolvedBadge(item)} · ${languages}`;
+}
+
+function getLanguages(entry: SolvedEntry): string[] {
+  return Object.keys(entry.languages || { [entry.language]: true }).sort();
+}
+
+function getAcceptCount(entry: SolvedEntry): number {
+  return entry.attempts?.length || 1;
+}
+
+function getResolvedBadge(entry: SolvedEntry): string {
+  const count = getAcceptCount(entry);
+  return count > 1 ? ` 🔁×${count}` : '';
+}
+
 function getDifficultyBadge(difficulty?: string): string {
   if (!difficulty) return '';
   const lower = difficulty.toLowerCase();
@@ -187,48 +280,271 @@ function getDifficultyBadge(difficulty?: string): string {
 }
 
 /**
- * Sync progress files to GitHub
+ * Build PROGRESS.json and PROGRESS.md for inclusion in a commit, listing
+ * only the solves routed to the target
  */
-export async function syncProgressFiles(
-  token: string,
+export function buildProgressFiles(
+  settings: Settings,
+  progress: Progress,
+  mapping: Mapping,
+  targetId = PRIMARY_TARGET_ID
+): CommitFile[] {
+  const visible = filterProgressForTarget(progress, targetId, settings, mapping);
+  return [
+    {
+      path: `${settings.baseDir}/PROGRESS.json`,
+      content: generateProgressJson(visible),
+    },
+    {
+      path: `${settings.baseDir}/PROGRESS.md`,
+      content: generateProgressMd(visible, mapping),
+    },
+  ];
+}
+
+/**
+ * First files for an empty repository
+ */
+export function buildInitialFiles(settings: Settings): CommitFile[] {
+  const readme = [
+    '# NeetCode Solutions',
+    '',
+    'My solutions to [NeetCode](https://neetcode.io) problems, synced automatically by NeetSync.',
+    '',
+    `See [${settings.baseDir}/PROGRESS.md](${settings.baseDir}/PROGRESS.md) for progress.`,
+    '',
+  ].join('\n');
+  
+  // Normalize line endings and keep generated progress files out of diffs and stats
+  const gitattributes = [
+    '* text=auto eol=lf',
+    `${settings.baseDir}/PROGRESS.json linguist-generated=true`,
+    `${settings.baseDir}/PROGRESS.md linguist-generated=true`,
+    '',
+  ].join('\n');
+  
+  return [
+    { path: 'README.md', content: readme },
+    { path: '.gitattributes', content: gitattributes },
+  ];
+}
+
+/**
+ * Parse a PROGRESS.json written by any NeetSync version
+ */
+export function parseProgressJson(text: string): Progress {
+  const data = JSON.parse(text);
+  if (!data || typeof data.solved !== 'object' || data.solved === null) {
+    throw new Error('PROGRESS.json has no solved map');
+  }
+  
+  const progress: Progress = { solved: {} };
+  for (const [slug, entry] of Object.entries(data.solved as Record<string, SolvedEntry>)) {
+    if (entry && typeof entry.solvedAt === 'number' && entry.language) {
+      progress.solved[slug] = migrateSolvedEntry(entry);
+    }
+  }
+  return progress;
+}
+
+/**
+ * Merge two entries for the same problem; the later accept wins per language
+ */
+function mergeSolvedEntries(a: SolvedEntry, b: SolvedEntry): SolvedEntry {
+  const [latest, other] = a.solvedAt >= b.solvedAt ? [a, b] : [b, a];
+  
+  const languages: Record<string, LanguageSolution> = { ...other.languages };
+  for (const [language, solution] of Object.entries(latest.languages)) {
+    const existing = languages[language];
+    if (!existing || solution.solvedAt >= existing.solvedAt) {
+      languages[language] = solution;
+    }
+  }
+  
+  let attempts: SolveAttempt[] | undefined;
+  if (a.attempts || b.attempts) {
+    const seen = new Set<string>();
+    attempts = [...(a.attempts || []), ...(b.attempts || [])]
+      .filter((attempt) => {
+        const key = `${attempt.at}:${attempt.language}:${attempt.sha256}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .sort((x, y) => x.at - y.at);
+  }
+  
+  return {
+    ...latest,
+    title: latest.title || other.title,
+    category: latest.category || other.category,
+    listName: latest.listName || other.listName,
+    difficulty: latest.difficulty || other.difficulty,
+    languages,
+    attempts,
+  };
+}
+
+/**
+ * Union two progress snapshots by slug and language
+ */
+export function mergeProgress(local: Progress, remote: Progress): Progress {
+  const merged: Progress = { solved: { ...local.solved } };
+  
+  for (const [slug, remoteEntry] of Object.entries(remote.solved)) {
+    const localEntry = merged.solved[slug];
+    merged.solved[slug] = localEntry ? mergeSolvedEntries(localEntry, remoteEntry) : remoteEntry;
+  }
+  
+  return merged;
+}
+
+/**
+ * Merge the repo's PROGRESS.json into local progress
+ */
+export async function importRemoteProgress(
+  provider: GitProvider,
+  settings: Settings
+): Promise<{ imported: number; total: number }> {
+  const remote = await readRemoteProgress(provider, settings, settings.branch);
+  
+  if (remote) {
+    const merged = mergeProgress(await getProgress(), remote);
+    await saveProgress(merged);
+    await setProgressImportedFrom(getTargetKey(settings));
+    return { imported: Object.keys(remote.solved).length, total: Object.keys(merged.solved).length };
+  }
+  
+  await setProgressImportedFrom(getTargetKey(settings));
+  return { imported: 0, total: Object.keys((await getProgress()).solved).length };
+}
+
+/**
+ * Read PROGRESS.json at a ref. A damaged file throws rather than counting as
+ * absent, so nothing overwrites it until progress is rebuilt from history.
+ */
+async function readRemoteProgress(
+  provider: GitProvider,
+  settings: Settings,
+  ref: string
+): Promise<Progress | null> {
+  const file = await provider.getFile(`${settings.baseDir}/PROGRESS.json`, ref);
+  if (!file) {
+    return null;
+  }
+  
+  try {
+    return parseProgressJson(file.text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new ProgressFileError(
+      `PROGRESS.json in ${getTargetName(settings)} can't be read (${message}); rebuild progress from history in Options to replace it`
+    );
+  }
+}
+
+/**
+ * Make sure remote progress has been merged before we overwrite it.
+ * Throws if the remote file can't be read, so callers don't write over it.
+ */
+export async function ensureRemoteProgressImported(
+  provider: GitProvider,
+  settings: Settings
+): Promise<void> {
+  if ((await getProgressImportedFrom()) === getTargetKey(settings)) {
+    return;
+  }
+  
+  const result = await importRemoteProgress(provider, settings);
+  if (result.imported > 0) {
+    await logger.success(`Restored ${result.imported} solved problems from ${getTargetName(settings)}`);
+  }
+}
+
+/**
+ * Commit files together with progress merged against the remote PROGRESS.json.
+ *
+ * The remote file is read at the exact head we build on and the commit is
+ * pinned to that head, so if another device pushes in between the ref
+ * update is rejected and we merge again on top of its changes.
+ * Returns the merged progress that was committed; callers should save it.
+ */
+export async function commitWithProgress(
+  provider: GitProvider,
   settings: Settings,
+  mapping: Mapping,
   progress: Progress,
+  files: CommitFile[],
+  message: string,
+  options: Omit<CommitOptions, 'parentSha'> = {},
+  targetId = PRIMARY_TARGET_ID
+): Promise<Progress> {
+  for (let attempt = 0; ; attempt++) {
+    const headSha = await provider.getBranchHead(settings.branch);
+    const remote = await readRemoteProgress(provider, settings, headSha);
+    const merged = remote ? mergeProgress(progress, remote) : progress;
+    
+    try {
+      await provider.commitFiles(
+        [...files, ...buildProgressFiles(settings, merged, mapping, targetId)],
+        message,
+        settings.branch,
+        { ...options, parentSha: headSha }
+      );
+      return merged;
+    } catch (error) {
+      if (!(error instanceof ShaConflictError) || attempt >= MAX_CONFLICT_RETRIES) {
+        throw error;
+      }
+      await logger.info('Branch moved during commit, merging remote progress again');
+    }
+  }
+}
+
+/**
+ * Sync progress files to the repository
+ */
+export async function syncProgressFiles(
+  token: string | null,
+  settings: Settings,
   mapping: Mapping
 ): Promise<{ success: boolean; error?: string }> {
+  const owner = `progress-${Date.now()}`;
+  
+  // Share the queue lease so progress isn't written from two places at once
+  if (!(await acquireQueueLease(owner, LEASE_TTL))) {
+    return { success: false, error: 'Queue is being processed, try again shortly' };
+  }
+  
   try {
-    const client = new GitHubClient(token, settings.repoFullName);
+    const provider = createProvider(token, settings);
+    const branch = getSyncBranch(settings);
     
-    const jsonPath = `${settings.baseDir}/PROGRESS.json`;
-    const mdPath = `${settings.baseDir}/PROGRESS.md`;
-    
-    const jsonContent = generateProgressJson(progress);
-    const mdContent = generateProgressMd(progress, mapping);
-    
-    // Commit PROGRESS.json
-    const existingJson = await client.getFile(jsonPath, settings.branch);
-    await client.createOrUpdateFile(
-      jsonPath,
-      jsonContent,
-      '📊 Update PROGRESS.json',
-      settings.branch,
-      existingJson?.sha
-    );
+    await ensureRemoteProgressImported(provider, settings);
+    await prepareSyncBranch(provider, settings, branch);
+    const progress = await getProgress();
     
-    // Commit PROGRESS.md
-    const existingMd = await client.getFile(mdPath, settings.branch);
-    await client.createOrUpdateFile(
-      mdPath,
-      mdContent,
-      '📊 Update PROGRESS.md',
-      settings.branch,
-      existingMd?.sha
+    // Commit PROGRESS.json and PROGRESS.md together, merged with any remote changes
+    const merged = await commitWithProgress(
+      provider,
+      { ...settings, branch },
+      mapping,
+      progress,
+      [],
+      renderMessageTemplate(settings.progressCommitTemplate, {
+        solved: String(Object.keys(progress.solved).length),
+      })
     );
+    await saveProgress(merged);
     
-    await logger.success('Progress files synced to GitHub');
+    await logger.success(`Progress files synced to ${provider.name}`);
+    await submitSyncBranch(provider, settings, branch, [], merged);
     return { success: true };
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
     await logger.error('Failed to sync progress files', message);
     return { success: false, error: message };
+  } finally {
+    await releaseQueueLease(owner);
   }
 }
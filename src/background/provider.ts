@@ -0,0 +1,66 @@
+// Sync target (git host or local folder) selection for NeetSync
+
+import type { GitProvider, Settings } from './types';
+import { GitHubClient, getApiBase } from './github';
+import { GitLabClient, getGitLabApiBase } from './gitlab';
+import { GiteaClient, getGiteaApiBase } from './gitea';
+import { LocalFolderClient } from './folder';
+
+/**
+ * Whether there's somewhere to sync to. A local folder needs neither a
+ * token nor a repository; a missing folder shows up when writing to it.
+ */
+export function isSyncConfigured(settings: Settings, token: string | null): boolean {
+  return settings.provider === 'LOCAL' || Boolean(token && settings.repoFullName);
+}
+
+/**
+ * Identifies the sync target, to remember where progress was imported from.
+ * The same repository name on another host is another target.
+ */
+export function getTargetKey(settings: Settings): string {
+  if (settings.provider === 'LOCAL') {
+    return 'local';
+  }
+  return `${settings.provider}:${getProviderApiBase(settings)}/${settings.repoFullName}#${settings.branch}`;
+}
+
+/**
+ * Sync target for log messages
+ */
+export function getTargetName(settings: Settings): string {
+  return settings.provider === 'LOCAL' ? 'the local folder' : settings.repoFullName;
+}
+
+/**
+ * REST API base for the configured provider and host
+ */
+export function getProviderApiBase(settings: Pick<Settings, 'provider' | 'apiBaseUrl'>): string {
+  switch (settings.provider) {
+    case 'GITLAB':
+      return getGitLabApiBase(settings);
+    case 'GITEA':
+      return getGiteaApiBase(settings);
+    case 'LOCAL':
+      return '';
+    default:
+      return getApiBase(settings);
+  }
+}
+
+/**
+ * Client for the configured provider, repository and host
+ */
+export function createProvider(token: string | null, settings: Settings): GitProvider {
+  const apiBase = getProviderApiBase(settings);
+  switch (settings.provider) {
+    case 'GITLAB':
+      return new GitLabClient(token || '', settings.repoFullName, apiBase);
+    case 'GITEA':
+      return new GiteaClient(token || '', settings.repoFullName, apiBase);
+    case 'LOCAL':
+      return new LocalFolderClient();
+    default:
+      return new GitHubClient(token || '', settings.repoFullName, apiBase);
+  }
+}
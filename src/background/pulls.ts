@@ -0,0 +1,127 @@
+// Pull request sync mode for NeetSync
+
+import type { GitProvider, QueueItem, Settings, Progress } from './types';
+import { logger } from './logger';
+
+const BRANCH_PREFIX = 'neetsync/';
+const BODY_HEADER = 'Solutions synced by NeetSync.\n\n### Problems';
+
+/**
+ * Working branch for a day's solutions, e.g. neetsync/2024-01-31
+ */
+export function pullRequestBranchName(now = Date.now()): string {
+  const date = new Date(now);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${BRANCH_PREFIX}${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Whether writes go through a working branch and pull request
+ */
+export function usesPullRequest(settings: Settings): boolean {
+  return settings.syncMode === 'PULL_REQUEST' && settings.provider !== 'LOCAL';
+}
+
+/**
+ * Branch a write commits to: the day's working branch in pull request mode,
+ * otherwise the configured branch
+ */
+export function getSyncBranch(settings: Settings): string {
+  return usesPullRequest(settings) ? pullRequestBranchName() : settings.branch;
+}
+
+/**
+ * Make sure the working branch exists, starting it from the base branch
+ */
+async function preparePullRequestBranch(
+  provider: GitProvider,
+  settings: Settings,
+  branch: string
+): Promise<void> {
+  if (await provider.prepareChangeBranch(branch, settings.branch)) {
+    await logger.info(`Created branch ${branch} from ${settings.branch}`);
+  }
+}
+
+/**
+ * One line per synced solution for the pull request body
+ */
+function buildProblemLines(items: QueueItem[], progress: Progress): string[] {
+  return items.map((item) => {
+    const difficulty = item.difficulty || progress.solved[item.slug]?.difficulty;
+    const badge = difficulty ? ` · ${difficulty}` : '';
+    return `- [${item.title}](https://neetcode.io/problems/${item.slug}) (${item.language})${badge}`;
+  });
+}
+
+/**
+ * Open a pull request (merge request on GitLab) for the working branch,
+ * or add the new problems to the one already open, then turn on
+ * auto-merge if configured. Returns its URL.
+ */
+async function openOrUpdatePullRequest(
+  provider: GitProvider,
+  settings: Settings,
+  branch: string,
+  items: QueueItem[],
+  progress: Progress
+): Promise<string> {
+  const kind = provider.changeRequestName;
+  const result = await provider.openChangeRequest({
+    sourceBranch: branch,
+    targetBranch: settings.branch,
+    title: `NeetSync: ${branch.substring(BRANCH_PREFIX.length)}`,
+    header: BODY_HEADER,
+    lines: buildProblemLines(items, progress),
+    autoMerge: settings.autoMerge,
+  });
+  
+  if (result.created) {
+    await logger.success(`Opened ${kind} #${result.number}`, result.url);
+  } else if (result.added > 0) {
+    await logger.info(`Updated ${kind} #${result.number} with ${result.added} problems`);
+  }
+  
+  if (result.merged) {
+    await logger.success(`Merged ${kind} #${result.number}`);
+  } else if (result.autoMergeError) {
+    await logger.warn(`Could not enable auto-merge for ${kind} #${result.number}`, result.autoMergeError);
+  }
+  
+  return result.url;
+}
+
+/**
+ * Get the branch from `getSyncBranch` ready to commit to
+ */
+export async function prepareSyncBranch(
+  provider: GitProvider,
+  settings: Settings,
+  branch: string
+): Promise<void> {
+  if (usesPullRequest(settings)) {
+    await preparePullRequestBranch(provider, settings, branch);
+  }
+}
+
+/**
+ * In pull request mode, open or update the pull request for a commit that
+ * landed on the working branch. The commit is already safe there, so a
+ * failure is logged rather than thrown.
+ */
+export async function submitSyncBranch(
+  provider: GitProvider,
+  settings: Settings,
+  branch: string,
+  items: QueueItem[],
+  progress: Progress
+): Promise<void> {
+  if (!usesPullRequest(settings)) return;
+  
+  try {
+    await openOrUpdatePullRequest(provider, settings, branch, items, progress);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await logger.error(`Could not open a pull request for ${branch}`, message);
+  }
+}
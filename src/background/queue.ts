@@ -1,28 +1,145 @@
 // Queue processor with retry logic for NeetSync
 
-import type { QueueItem, Settings as SettingsType, Mapping as MappingType } from './types';
+import type {
+  QueueItem,
+  CommitFile,
+  CommitSummary,
+  GitProvider,
+  Settings as SettingsType,
+  Mapping as MappingType,
+  Progress as ProgressType,
+  SolvedEntry,
+  SyncTarget,
+} from './types';
 import {
   getQueue,
   saveQueue,
   removeFromQueue,
+  releaseHeldItems,
   updateQueueItem,
+  moveToFailed,
   getSettings,
   getToken,
   getMapping,
-  updateSolved,
   setLastSync,
   getProgress,
+  saveProgress,
+  recordSolve,
+  getQueueLease,
+  acquireQueueLease,
+  releaseQueueLease,
+  updateQueueTargetStatus,
+  getBatchWindowAt,
+  setBatchWindowAt,
 } from './storage';
-import { commitSolutionFile } from './github';
-import { buildFilePath, generateHeader, sha256, slugToTitle } from './normalize';
-import { syncProgressFiles } from './progress';
+import { scheduler } from './github';
+import { refreshTokenIfNeeded } from './auth';
+import { createProvider, isSyncConfigured } from './provider';
+import {
+  AuthError,
+  FolderAccessError,
+  NotFoundError,
+  ProgressFileError,
+  RateLimitedError,
+  isTransient,
+} from './errors';
+import {
+  buildFilePath,
+  buildVersionedPath,
+  generateHeader,
+  normalizeDifficulty,
+  renderMessageTemplate,
+  sha256,
+  slugToTitle,
+} from './normalize';
+import { commitWithProgress, ensureRemoteProgressImported } from './progress';
+import { buildItemTrailers } from './history';
+import { getSyncBranch, prepareSyncBranch, submitSyncBranch } from './pulls';
+import {
+  PRIMARY_TARGET_ID,
+  describeTarget,
+  getItemTargets,
+  getSyncTargets,
+  isPendingFor,
+  settingsForTarget,
+} from './targets';
 import { logger } from './logger';
 
 const MAX_RETRIES = 5;
 const BASE_DELAY = 1000; // 1 second
 const MAX_DELAY = 60000; // 1 minute
 
-let isProcessing = false;
+const LEASE_TTL = 5 * 60000; // 5 minutes
+const RECOVERY_COMMIT_DEPTH = 30;
+
+export const QUEUE_ALARM = 'processQueue';
+export const BATCH_ALARM = 'batchWindow';
+
+/**
+ * (Re)create the periodic queue alarm, optionally delaying its first run
+ */
+export function scheduleQueueAlarm(when?: number): void {
+  if (when) {
+    chrome.alarms.create(QUEUE_ALARM, { when, periodInMinutes: 1 });
+  } else {
+    chrome.alarms.create(QUEUE_ALARM, { periodInMinutes: 1 });
+  }
+}
+
+/**
+ * Next occurrence of a local HH:MM time
+ */
+function nextDailyTime(time: string, now = Date.now()): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  const next = new Date(now);
+  next.setHours(hours, minutes, 0, 0);
+  if (next.getTime() <= now) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next.getTime();
+}
+
+/**
+ * Set (or clear) the alarm that opens batch windows. An alarm that already
+ * matches the policy is kept unless `reset`, so a browser restart doesn't
+ * push the next window back or drop one that was missed.
+ */
+export async function scheduleBatchAlarm(settings: SettingsType, reset = false): Promise<void> {
+  const existing = await chrome.alarms.get(BATCH_ALARM);
+  
+  switch (settings.batchMode) {
+    case 'INTERVAL': {
+      const periodInMinutes = Math.max(1, settings.batchIntervalMinutes);
+      if (reset || existing?.periodInMinutes !== periodInMinutes) {
+        chrome.alarms.create(BATCH_ALARM, { periodInMinutes });
+      }
+      break;
+    }
+    case 'DAILY':
+      // One-shot, rescheduled when it fires so it follows daylight saving changes
+      if (reset || !existing || existing.periodInMinutes) {
+        chrome.alarms.create(BATCH_ALARM, { when: nextDailyTime(settings.batchDailyTime) });
+      }
+      break;
+    default:
+      await chrome.alarms.clear(BATCH_ALARM);
+  }
+}
+
+/**
+ * Let everything queued so far go out, together in one commit per target
+ */
+export async function openBatchWindow(): Promise<void> {
+  await setBatchWindowAt(Date.now());
+  await processQueue();
+}
+
+/**
+ * Generate a random id for queue items, batches and lease owners
+ */
+function generateId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
 
 /**
  * Calculate exponential backoff delay
@@ -33,25 +150,44 @@ function getBackoffDelay(retries: number): number {
 }
 
 /**
- * Process a single queue item
+ * Resolve where a queue item's solution file will be written
  */
-async function processItem(
+export function getTargetPath(
   item: QueueItem,
   settings: SettingsType,
-  token: string,
   mapping: MappingType
-): Promise<boolean> {
-  const mappingEntry = mapping.entries[item.slug];
+): string {
+  if (item.pathOverride) {
+    return item.pathOverride;
+  }
   
-  // Build file path
-  const filePath = buildFilePath(
+  return buildFilePath(
     settings,
     item.slug,
     item.title,
     item.language,
-    mappingEntry,
+    mapping.entries[item.slug],
     item.difficulty
   );
+}
+
+/**
+ * Build the solution file for a single queue item
+ */
+function buildSolutionFile(
+  item: QueueItem,
+  settings: SettingsType,
+  mapping: MappingType,
+  progress: ProgressType
+): CommitFile {
+  const mappingEntry = mapping.entries[item.slug];
+  let filePath = getTargetPath(item, settings, mapping);
+  
+  // Repeat accepts get their own file when versioning is on
+  if (settings.versioning !== 'NONE' && !item.pathOverride) {
+    const version = countAccepts(progress.solved[item.slug], item.language, item.at) + 1;
+    filePath = buildVersionedPath(filePath, settings.versioning, version, item.at);
+  }
   
   // Build content with optional header
   let content = item.code;
@@ -70,120 +206,533 @@ async function processItem(
     content = header + content;
   }
   
-  // Commit to GitHub
-  const commitMessage = `✅ Solve: ${item.title}`;
-  const result = await commitSolutionFile(
-    token,
-    settings.repoFullName,
-    settings.branch,
-    filePath,
-    content,
-    commitMessage,
-    settings.overwrite
+  return { path: filePath, content };
+}
+
+/**
+ * Subject line for a single solve, from the user's template
+ */
+function buildSolveSubject(item: QueueItem, settings: SettingsType, mapping: MappingType): string {
+  const mappingEntry = mapping.entries[item.slug];
+  return renderMessageTemplate(settings.commitMessageTemplate, {
+    title: item.title,
+    slug: item.slug,
+    difficulty: normalizeDifficulty(item.difficulty || mappingEntry?.difficulty),
+    category: item.category || mappingEntry?.category,
+    list: item.listName || mappingEntry?.listName,
+    language: item.language,
+    runtime: item.meta?.runtime,
+    memory: item.meta?.memory,
+  });
+}
+
+/**
+ * Build the commit message for a batch of queue items.
+ * The batch trailer lets a restarted worker find commits it never recorded.
+ */
+async function buildCommitMessage(
+  items: QueueItem[],
+  batchId: string,
+  progress: ProgressType,
+  settings: SettingsType,
+  mapping: MappingType
+): Promise<string> {
+  const lines: string[] = [];
+  
+  if (items.length === 1) {
+    lines.push(buildSolveSubject(items[0], settings, mapping));
+  } else {
+    lines.push(renderMessageTemplate(settings.batchCommitTemplate, { count: String(items.length) }), '');
+    for (const item of items) {
+      lines.push(`- ${item.title} (${item.language})`);
+    }
+  }
+  
+  // Trailers go in one final paragraph so git tooling recognizes them
+  lines.push('');
+  for (const item of items) {
+    lines.push(...(await buildItemTrailers(item, progress.solved[item.slug]?.difficulty)));
+  }
+  lines.push(`NeetSync-Batch: ${batchId}`);
+  return lines.join('\n');
+}
+
+/**
+ * Count accepts of a problem in one language before a given time, so an
+ * item mirrored after the main repository recorded it gets the same version.
+ * Entries from before attempts were tracked count as a single accept.
+ */
+function countAccepts(entry: SolvedEntry | undefined, language: string, before: number): number {
+  if (!entry) {
+    return 0;
+  }
+  if (!entry.attempts) {
+    return entry.language === language && entry.solvedAt < before ? 1 : 0;
+  }
+  return entry.attempts.filter((attempt) => attempt.language === language && attempt.at < before).length;
+}
+
+/**
+ * Record a synced queue item in progress
+ */
+async function applyToProgress(
+  progress: ProgressType,
+  item: QueueItem,
+  mapping: MappingType,
+  path?: string
+): Promise<void> {
+  // Already recorded when the item reached another target first
+  const attempts = progress.solved[item.slug]?.attempts || [];
+  if (attempts.some((attempt) => attempt.at === item.at && attempt.language === item.language)) {
+    return;
+  }
+  
+  const codeHash = await sha256(item.slug + item.language + item.code);
+  recordSolve(progress, item.slug, {
+    title: item.title,
+    category: item.category || mapping.entries[item.slug]?.category,
+    listName: item.listName || mapping.entries[item.slug]?.listName,
+    difficulty: item.difficulty || mapping.entries[item.slug]?.difficulty,
+    language: item.language,
+    solvedAt: item.at,
+    sha256: codeHash,
+    runtime: item.meta?.runtime,
+    memory: item.meta?.memory,
+    path,
+  });
+}
+
+/**
+ * Build the batch commit (solutions plus progress files) and push it.
+ * Returns the merged progress, which the caller persists on success.
+ */
+async function commitBatch(
+  provider: GitProvider,
+  items: QueueItem[],
+  settings: SettingsType,
+  mapping: MappingType,
+  progress: ProgressType,
+  batchId: string,
+  targetId = PRIMARY_TARGET_ID
+): Promise<{ files: CommitFile[]; progress: ProgressType }> {
+  const files: CommitFile[] = [];
+  
+  for (const item of items) {
+    const file = buildSolutionFile(item, settings, mapping, progress);
+    
+    // Versioned paths are new files; only plain paths honour `overwrite`
+    const checkExisting = settings.versioning === 'NONE' && !settings.overwrite;
+    const existing = checkExisting ? await provider.getFile(file.path, settings.branch) : null;
+    if (existing) {
+      await logger.info(`File already exists, skipping: ${file.path}`);
+    } else {
+      files.push(file);
+    }
+    
+    await applyToProgress(progress, item, mapping, file.path);
+  }
+  
+  // Date the commit by when the problem was solved, not when it was pushed
+  const identity = await provider.getCommitIdentity(settings.authorName, settings.authorEmail);
+  const author = {
+    ...identity,
+    date: new Date(Math.max(...items.map((item) => item.at))).toISOString(),
+  };
+  
+  const merged = await commitWithProgress(
+    provider,
+    settings,
+    mapping,
+    progress,
+    files,
+    await buildCommitMessage(items, batchId, progress, settings, mapping),
+    { author },
+    targetId
+  );
+  return { files, progress: merged };
+}
+
+/**
+ * Decide what happens to a batch whose commit failed
+ */
+async function handleBatchFailure(items: QueueItem[], error: unknown): Promise<void> {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  
+  // Rate limits don't count against retries; resume when GitHub allows
+  if (error instanceof RateLimitedError) {
+    scheduleQueueAlarm(error.resumeAt);
+    await logger.warn(
+      `Rate limited, ${items.length} items will retry at ${new Date(error.resumeAt).toLocaleTimeString()}`
+    );
+    return;
+  }
+  
+  const now = Date.now();
+  
+  // Retrying with a bad token is pointless; hold until it's replaced
+  if (error instanceof AuthError) {
+    for (const item of items) {
+      await updateQueueItem(item.id, {
+        heldReason: 'auth',
+        lastAttempt: now,
+        history: [...(item.history || []), { at: now, error: message }],
+      });
+    }
+    await logger.error(
+      `Token was rejected, ${items.length} items on hold until it is updated`,
+      message
+    );
+    return;
+  }
+  
+  // Only an extension page can ask for folder access again
+  if (error instanceof FolderAccessError) {
+    for (const item of items) {
+      await updateQueueItem(item.id, {
+        heldReason: 'folder',
+        lastAttempt: now,
+        history: [...(item.history || []), { at: now, error: message }],
+      });
+    }
+    await logger.warn(
+      `Folder access lapsed, ${items.length} items on hold until it is granted again in Options`,
+      message
+    );
+    return;
+  }
+  
+  // Committing would overwrite the damaged file; wait for a rebuild from history
+  if (error instanceof ProgressFileError) {
+    for (const item of items) {
+      await updateQueueItem(item.id, {
+        heldReason: 'progress',
+        lastAttempt: now,
+        history: [...(item.history || []), { at: now, error: message }],
+      });
+    }
+    await logger.error(
+      `PROGRESS.json is unreadable, ${items.length} items on hold until progress is rebuilt from history`,
+      message
+    );
+    return;
+  }
+  
+  for (const item of items) {
+    const history = [...(item.history || []), { at: now, error: message }];
+    
+    // A branch can be missing for a moment while it's being set up, so 404 gets one retry
+    const transient = isTransient(error) || (error instanceof NotFoundError && item.retries === 0);
+    if (!transient || item.retries >= MAX_RETRIES) {
+      await logger.error(
+        transient
+          ? `Max retries reached for ${item.title}, moved to failed items`
+          : `Permanent error for ${item.title}, moved to failed items`,
+        message
+      );
+      await moveToFailed({ ...item, lastAttempt: now, history }, message);
+    } else {
+      await updateQueueItem(item.id, {
+        retries: item.retries + 1,
+        lastAttempt: now,
+        history,
+      });
+      await logger.warn(
+        `Retry ${item.retries + 1}/${MAX_RETRIES} for ${item.title}`,
+        message
+      );
+    }
+  }
+}
+
+/**
+ * Resolve items left in flight by a run that died mid-commit.
+ * Items whose batch reached the target's branch are synced there; the rest
+ * go back to pending.
+ */
+async function recoverInFlight(
+  provider: GitProvider,
+  token: string | null,
+  queue: QueueItem[],
+  settings: SettingsType,
+  mapping: MappingType
+): Promise<void> {
+  const stranded = queue.filter((item) => item.inFlight);
+  if (stranded.length === 0) {
+    return;
+  }
+  
+  const targets = getSyncTargets(settings);
+  
+  // Pull request batches land on their own working branch
+  const commitsByBranch: Record<string, CommitSummary[]> = {};
+  const landed = async (target: SyncTarget, inFlight: NonNullable<QueueItem['inFlight']>) => {
+    const targetSettings = settingsForTarget(settings, target);
+    const branch = inFlight.branch || targetSettings.branch;
+    const key = `${target.id}:${branch}`;
+    if (!commitsByBranch[key]) {
+      const targetProvider = target.id === PRIMARY_TARGET_ID ? provider : createProvider(token, targetSettings);
+      try {
+        commitsByBranch[key] = await targetProvider.listCommits(branch, RECOVERY_COMMIT_DEPTH);
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) {
+          throw error;
+        }
+        commitsByBranch[key] = [];
+      }
+    }
+    return commitsByBranch[key].some((commit) =>
+      commit.message.includes(`NeetSync-Batch: ${inFlight.batchId}`)
+    );
+  };
+  
+  const progress = await getProgress();
+  let recovered = 0;
+  
+  for (const item of stranded) {
+    // Items queued before mirrors existed were only ever sent to the main repository
+    const target = targets.find((candidate) => candidate.id === (item.inFlight!.target || PRIMARY_TARGET_ID));
+    if (target && await landed(target, item.inFlight!)) {
+      if (target.id === PRIMARY_TARGET_ID) {
+        await applyToProgress(progress, item, mapping);
+      }
+      await updateQueueTargetStatus(item.id, target.id, { syncedAt: Date.now(), lastError: undefined });
+      recovered++;
+    }
+    await updateQueueItem(item.id, { inFlight: undefined });
+  }
+  
+  if (recovered > 0) {
+    await saveProgress(progress);
+    await removeCompletedItems(settings, mapping);
+    await logger.info(`Recovered ${recovered} items that were committed before a restart`);
+  }
+}
+
+/**
+ * Drop items every target they're routed to has; a mirror that was removed no longer counts
+ */
+async function removeCompletedItems(settings: SettingsType, mapping: MappingType): Promise<void> {
+  for (const item of await getQueue()) {
+    const targets = getItemTargets(item, settings, mapping);
+    if (!item.inFlight && targets.every((target) => !isPendingFor(item, target))) {
+      await removeFromQueue(item.id);
+    }
+  }
+}
+
+/**
+ * Commit the items still pending for one target in a single commit, then
+ * open or update its pull request in that mode. Only the main repository's
+ * merged progress is kept locally.
+ */
+async function syncToTarget(
+  owner: string,
+  provider: GitProvider,
+  target: SyncTarget,
+  items: QueueItem[],
+  settings: SettingsType,
+  mapping: MappingType,
+  progress: ProgressType
+): Promise<void> {
+  const batchId = generateId();
+  const branch = getSyncBranch(settings);
+  let result: { files: CommitFile[]; progress: ProgressType };
+  
+  // Renew the lease and mark the batch in flight before touching the repository
+  await acquireQueueLease(owner, LEASE_TTL);
+  for (const item of items) {
+    await updateQueueItem(item.id, {
+      inFlight: { batchId, owner, startedAt: Date.now(), branch, target: target.id },
+    });
+  }
+  
+  try {
+    await prepareSyncBranch(provider, settings, branch);
+    result = await commitBatch(provider, items, { ...settings, branch }, mapping, progress, batchId, target.id);
+  } catch (error) {
+    for (const item of items) {
+      await updateQueueItem(item.id, { inFlight: undefined });
+    }
+    throw error;
+  }
+  
+  // Commit landed: persist merged progress and mark the batch synced here.
+  // Solves routed away from the main repository are recorded as they land elsewhere.
+  if (target.id === PRIMARY_TARGET_ID) {
+    await saveProgress(result.progress);
+  } else {
+    const local = await getProgress();
+    for (const item of items) {
+      if (!getItemTargets(item, settings, mapping).some((routed) => routed.id === PRIMARY_TARGET_ID)) {
+        await applyToProgress(local, item, mapping);
+      }
+    }
+    await saveProgress(local);
+  }
+  const now = Date.now();
+  for (const item of items) {
+    await updateQueueItem(item.id, { inFlight: undefined });
+    await updateQueueTargetStatus(item.id, target.id, { syncedAt: now, lastError: undefined });
+  }
+  
+  await logger.success(
+    target.id === PRIMARY_TARGET_ID
+      ? `Queue processed: ${items.length} synced in one commit`
+      : `Mirrored ${items.length} to ${describeTarget(target)} in one commit`,
+    result.files.map((file) => file.path).join('\n')
   );
   
-  return result.success;
+  await submitSyncBranch(provider, settings, branch, items, result.progress);
 }
 
 /**
  * Process the sync queue
+ *
+ * All items that are ready are committed together with the refreshed
+ * progress files in a single commit per sync target.
  */
 export async function processQueue(): Promise<void> {
-  if (isProcessing) {
+  const owner = generateId();
+  
+  if (!(await acquireQueueLease(owner, LEASE_TTL))) {
     await logger.info('Queue processing already in progress');
     return;
   }
   
-  isProcessing = true;
-  
   try {
-    const queue = await getQueue();
+    let queue = await getQueue();
     if (queue.length === 0) {
       return;
     }
     
+    // Don't wait on the refresh alarm if the token is about to lapse
+    try {
+      if (await refreshTokenIfNeeded()) {
+        await releaseHeldItems('auth');
+        queue = await getQueue();
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await logger.warn('Could not refresh GitHub token before syncing', message);
+    }
+    
     const settings = await getSettings();
     const token = await getToken();
     const mapping = await getMapping();
     
-    if (!token || !settings.repoFullName) {
-      await logger.warn('GitHub not configured, skipping queue processing');
+    if (!isSyncConfigured(settings, token)) {
+      await logger.warn('Repository not configured, skipping queue processing');
+      return;
+    }
+    
+    // Wait out any rate limit pause before spending requests
+    const pausedUntil = await scheduler.getPausedUntil();
+    if (pausedUntil) {
+      scheduleQueueAlarm(pausedUntil);
+      await logger.info(`Rate limited, queue paused until ${new Date(pausedUntil).toLocaleTimeString()}`);
       return;
     }
     
-    await logger.info(`Processing ${queue.length} queued items`);
+    const provider = createProvider(token, settings);
     
-    const progress = await getProgress();
-    let processedCount = 0;
-    let errorCount = 0;
+    // Never overwrite the repo's PROGRESS.json without merging it first
+    try {
+      await ensureRemoteProgressImported(provider, settings);
+    } catch (error) {
+      const waiting = queue.filter((item) => !item.heldReason && !item.inFlight);
+      if (error instanceof ProgressFileError && waiting.length > 0) {
+        await handleBatchFailure(waiting, error);
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await logger.warn('Could not read remote progress, will try again later', message);
+      return;
+    }
     
-    for (const item of queue) {
+    // We hold the lease, so anything still in flight belongs to a dead run
+    try {
+      await recoverInFlight(provider, token, queue, settings, mapping);
+      queue = await getQueue();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await logger.warn('Could not check in-flight items, will try again later', message);
+    }
+    
+    // With batching on, solves wait for the window after they were queued
+    const windowAt = settings.batchMode === 'IMMEDIATE' ? Infinity : await getBatchWindowAt();
+    
+    const ready = queue.filter((item) => {
+      if (item.heldReason || item.inFlight || item.at > windowAt) {
+        return false;
+      }
       // Check if we should retry based on backoff
       if (item.lastAttempt && item.retries > 0) {
         const delay = getBackoffDelay(item.retries - 1);
-        const timeSinceLastAttempt = Date.now() - item.lastAttempt;
-        if (timeSinceLastAttempt < delay) {
-          continue; // Skip, not ready for retry yet
-        }
+        return Date.now() - item.lastAttempt >= delay;
+      }
+      return true;
+    });
+    
+    if (ready.length === 0) {
+      return;
+    }
+    
+    await logger.info(`Processing ${ready.length} queued items`);
+    
+    // Each target gets its own commit; one failing doesn't hold back the others
+    const baseline = await getProgress();
+    const failures = new Map<string, unknown>();
+    let synced = false;
+    
+    for (const target of getSyncTargets(settings)) {
+      const pending = ready.filter((item) =>
+        isPendingFor(item, target) && getItemTargets(item, settings, mapping).some((routed) => routed.id === target.id)
+      );
+      if (pending.length === 0) {
+        continue;
       }
       
+      const targetSettings = settingsForTarget(settings, target);
+      const targetProvider = target.id === PRIMARY_TARGET_ID ? provider : createProvider(token, targetSettings);
+      
       try {
-        const success = await processItem(item, settings, token, mapping);
-        
-        if (success) {
-          // Update progress
-          const codeHash = await sha256(item.slug + item.language + item.code);
-          await updateSolved(item.slug, {
-            title: item.title,
-            category: item.category || mapping.entries[item.slug]?.category,
-            listName: item.listName || mapping.entries[item.slug]?.listName,
-            difficulty: item.difficulty || mapping.entries[item.slug]?.difficulty,
-            language: item.language,
-            solvedAt: item.at,
-            sha256: codeHash,
-          });
-          
-          // Remove from queue
-          await removeFromQueue(item.id);
-          processedCount++;
-        } else {
-          throw new Error('Commit failed');
-        }
+        await syncToTarget(owner, targetProvider, target, pending, targetSettings, mapping, structuredClone(baseline));
+        synced = true;
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
+        for (const item of pending) {
+          await updateQueueTargetStatus(item.id, target.id, { lastError: message });
+          if (!failures.has(item.id)) {
+            failures.set(item.id, error);
+          }
+        }
         
-        if (item.retries >= MAX_RETRIES) {
-          await logger.error(
-            `Max retries reached for ${item.title}, removing from queue`,
-            message
-          );
-          await removeFromQueue(item.id);
-          errorCount++;
-        } else {
-          await updateQueueItem(item.id, {
-            retries: item.retries + 1,
-            lastAttempt: Date.now(),
-          });
-          await logger.warn(
-            `Retry ${item.retries + 1}/${MAX_RETRIES} for ${item.title}`,
-            message
-          );
+        // The host and token are shared, so the remaining targets would fail the same way
+        if (error instanceof RateLimitedError || error instanceof AuthError || error instanceof FolderAccessError) {
+          break;
         }
       }
     }
     
-    if (processedCount > 0) {
-      // Sync progress files
-      const updatedProgress = await getProgress();
-      await syncProgressFiles(token, settings, updatedProgress, mapping);
+    if (synced) {
       await setLastSync(Date.now());
-      
-      await logger.success(
-        `Queue processed: ${processedCount} synced, ${errorCount} failed`
-      );
+    }
+    await removeCompletedItems(settings, mapping);
+    
+    // Retry or give up once per item, on the first target that failed it
+    const current = await getQueue();
+    const byError = new Map<unknown, QueueItem[]>();
+    for (const item of current) {
+      if (failures.has(item.id)) {
+        const error = failures.get(item.id);
+        byError.set(error, [...(byError.get(error) || []), item]);
+      }
+    }
+    for (const [error, items] of byError) {
+      await handleBatchFailure(items, error);
     }
   } finally {
-    isProcessing = false;
+    await releaseQueueLease(owner);
   }
 }
 
@@ -210,7 +759,7 @@ export async function enqueueSubmission(
   const codeHash = await sha256(slug + language + code);
   
   // Check if we recently solved this exact problem with same code
-  const existingSolved = localProgress.solved[slug];
+  const existingSolved = localProgress.solved[slug]?.languages[language];
   if (existingSolved) {
     const timeSinceSolved = Date.now() - existingSolved.solvedAt;
     if (existingSolved.sha256 === codeHash && timeSinceSolved < 60000) {
@@ -220,23 +769,26 @@ export async function enqueueSubmission(
   }
   
   // Check if already in queue
-  const queue = await getQueue();
-  const existingInQueue = queue.find(
-    (item) => item.slug === slug && item.language === language
-  );
+  let queue = await getQueue();
+  const queued = queue.filter((item) => item.slug === slug && item.language === language);
   
-  if (existingInQueue) {
-    // Update existing queue item with new code
-    const existingHash = await sha256(
-      existingInQueue.slug + existingInQueue.language + existingInQueue.code
-    );
-    if (existingHash === codeHash) {
+  for (const item of queued) {
+    if ((await sha256(item.slug + item.language + item.code)) === codeHash) {
       await logger.info(`Already queued: ${title}`);
       return false;
     }
-    
-    // Remove old entry
-    await removeFromQueue(existingInQueue.id);
+  }
+  
+  // New code replaces a queued accept only when it would overwrite the same
+  // file anyway; versioned accepts each keep their file and attempt record,
+  // and an item some target is syncing or already has must stay until done
+  if (settings.versioning === 'NONE') {
+    const replaced = new Set(
+      queued
+        .filter((item) => !item.inFlight && !Object.values(item.targets || {}).some((status) => status.syncedAt))
+        .map((item) => item.id)
+    );
+    queue = queue.filter((item) => !replaced.has(item.id));
   }
   
   // Add to queue
@@ -255,13 +807,21 @@ export async function enqueueSubmission(
   
   queue.push({
     ...newItem,
-    id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    id: generateId(),
     retries: 0,
   });
   
   await saveQueue(queue);
   await logger.success(`Queued: ${title} (${language})`);
   
+  if (settings.batchMode !== 'IMMEDIATE') {
+    const alarm = await chrome.alarms.get(BATCH_ALARM);
+    if (alarm) {
+      await logger.info(`Will sync with the next batch at ${new Date(alarm.scheduledTime).toLocaleString()}`);
+    }
+    return true;
+  }
+  
   // Trigger queue processing
   setTimeout(() => processQueue(), 100);
   
@@ -271,6 +831,7 @@ export async function enqueueSubmission(
 /**
  * Get queue processing status
  */
-export function isQueueProcessing(): boolean {
-  return isProcessing;
+export async function isQueueProcessing(): Promise<boolean> {
+  const lease = await getQueueLease();
+  return !!lease && lease.expiresAt > Date.now();
 }
@@ -0,0 +1,328 @@
+// Repository reorganization for NeetSync
+
+import type {
+  Settings,
+  Mapping,
+  Progress,
+  RepoTree,
+  ReorganizePlan,
+} from './types';
+import { getExtension } from './types';
+import {
+  getSettings,
+  getToken,
+  getMapping,
+  getProgress,
+  saveProgress,
+  acquireQueueLease,
+  releaseQueueLease,
+} from './storage';
+import { createProvider, isSyncConfigured } from './provider';
+import { buildFilePath, isVersionedPath, sanitize, slugToTitle } from './normalize';
+import { commitWithProgress, ensureRemoteProgressImported } from './progress';
+import { logger } from './logger';
+import { getSyncBranch, prepareSyncBranch, submitSyncBranch } from './pulls';
+
+const LEASE_TTL = 5 * 60000; // 5 minutes
+
+/**
+ * File names a solution may have been written under by any organization mode
+ */
+function candidateNames(slug: string, title: string, language: string): string[] {
+  const ext = getExtension(language);
+  const sanitizedTitle = sanitize(title || slugToTitle(slug));
+  return [`${sanitizedTitle}.${ext}`, `${slug}__${sanitizedTitle}.${ext}`];
+}
+
+/**
+ * Where a versioned copy goes when its base file moves from `from` to `to`.
+ * Null when it doesn't sit beside the base file under the base file's name.
+ */
+function relocateVersion(path: string, from: string, to: string): string | null {
+  const fromDir = from.substring(0, from.lastIndexOf('/'));
+  const fromName = from.substring(from.lastIndexOf('/') + 1);
+  const fromStem = fromName.substring(0, fromName.lastIndexOf('.'));
+  const toName = to.substring(to.lastIndexOf('/') + 1);
+  const toStem = toName.substring(0, toName.lastIndexOf('.'));
+  
+  const match = path.match(/^(.*?\/)(history\/)?([^/]+)$/);
+  if (!match || match[1] !== `${fromDir}/` || !match[3].startsWith(`${fromStem}.`)) {
+    return null;
+  }
+  return `${to.substring(0, to.lastIndexOf('/'))}/${match[2] || ''}${toStem}${match[3].substring(fromStem.length)}`;
+}
+
+/**
+ * Work out the moves and deletes needed to match the current settings.
+ * Versioned copies of a solution move along with its base file and are
+ * never deleted; only files with the target's own name count as duplicates.
+ */
+export function computeReorganizePlan(
+  settings: Settings,
+  progress: Progress,
+  mapping: Mapping,
+  tree: RepoTree,
+  slugs?: string[]
+): ReorganizePlan {
+  const plan: ReorganizePlan = { moves: [], deletes: [], missing: [] };
+  const prefix = `${settings.baseDir}/`;
+  
+  const blobs = new Set(tree.paths);
+  
+  // Index files under baseDir by name; versioned copies never match a candidate name
+  const byName: Record<string, string[]> = {};
+  for (const path of blobs) {
+    if (!path.startsWith(prefix)) continue;
+    const name = path.substring(path.lastIndexOf('/') + 1);
+    if (!byName[name]) byName[name] = [];
+    byName[name].push(path);
+  }
+  
+  for (const [slug, entry] of Object.entries(progress.solved)) {
+    if (slugs && !slugs.includes(slug)) continue;
+    
+    for (const [language, solution] of Object.entries(entry.languages)) {
+      const target = buildFilePath(
+        settings,
+        slug,
+        entry.title,
+        language,
+        mapping.entries[slug],
+        entry.difficulty
+      );
+      
+      const targetName = target.substring(target.lastIndexOf('/') + 1);
+      
+      // Recorded paths of repeat accepts, which only ever move
+      const versions = new Set<string>();
+      const recorded = [
+        solution.path,
+        ...(entry.attempts || [])
+          .filter((attempt) => attempt.language === language)
+          .map((attempt) => attempt.path),
+      ];
+      for (const path of recorded) {
+        if (path && blobs.has(path) && isVersionedPath(path)) {
+          versions.add(path);
+        }
+      }
+      
+      const found = new Set<string>();
+      if (solution.path && blobs.has(solution.path) && !versions.has(solution.path)) {
+        found.add(solution.path);
+      }
+      for (const name of candidateNames(slug, entry.title, language)) {
+        for (const path of byName[name] || []) {
+          found.add(path);
+        }
+      }
+      found.delete(target);
+      
+      if (!blobs.has(target) && found.size === 0) {
+        plan.missing.push({ slug, language });
+        continue;
+      }
+      
+      let others = [...found];
+      if (!blobs.has(target)) {
+        // Prefer the recorded location, then a file already named like the target
+        const source = solution.path && found.has(solution.path)
+          ? solution.path
+          : others.find((path) => path.endsWith(`/${targetName}`)) || others[0];
+        plan.moves.push({ slug, language, from: source, to: target });
+        others = others.filter((path) => path !== source);
+        
+        for (const path of versions) {
+          const to = relocateVersion(path, source, target);
+          if (to && to !== path && !blobs.has(to)) {
+            plan.moves.push({ slug, language, from: path, to });
+          }
+        }
+      }
+      
+      // Same name as the target elsewhere is a stale duplicate; anything else stays
+      for (const path of others) {
+        if (path.endsWith(`/${targetName}`)) {
+          plan.deletes.push({ slug, language, path });
+        }
+      }
+    }
+  }
+  
+  return plan;
+}
+
+/**
+ * Build a dry-run plan against the branch the apply will commit to. In pull
+ * request mode that's the day's working branch, created here if needed.
+ */
+export async function planReorganize(
+  slugs?: string[]
+): Promise<{ success: boolean; plan?: ReorganizePlan; error?: string }> {
+  const settings = await getSettings();
+  const token = await getToken();
+  
+  if (!isSyncConfigured(settings, token)) {
+    return { success: false, error: 'Repository not configured' };
+  }
+  
+  try {
+    const provider = createProvider(token, settings);
+    const branch = getSyncBranch(settings);
+    await prepareSyncBranch(provider, settings, branch);
+    const headSha = await provider.getBranchHead(branch);
+    const tree = await provider.listFiles(branch);
+    if (tree.truncated) {
+      await logger.warn('Repository tree is too large to list fully; some files may be missed');
+    }
+    
+    const plan = computeReorganizePlan(
+      settings,
+      await getProgress(),
+      await getMapping(),
+      tree,
+      slugs
+    );
+    plan.headSha = headSha;
+    return { success: true, plan };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await logger.error('Failed to plan reorganization', message);
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Point recorded paths at where the plan leaves each file. Missing files have
+ * nothing to move but still take their new path, so they aren't picked up again.
+ */
+function recordReorganizedPaths(
+  settings: Settings,
+  progress: Progress,
+  mapping: Mapping,
+  plan: ReorganizePlan,
+  slugs?: string[]
+): void {
+  const moved = new Map(plan.moves.map((move) => [move.from, move.to]));
+  
+  for (const [slug, entry] of Object.entries(progress.solved)) {
+    if (slugs && !slugs.includes(slug)) continue;
+    
+    for (const attempt of entry.attempts || []) {
+      if (attempt.path && moved.has(attempt.path)) {
+        attempt.path = moved.get(attempt.path);
+      }
+    }
+    for (const [language, solution] of Object.entries(entry.languages)) {
+      // The latest version keeps pointing at its own file when that moved
+      solution.path = solution.path && moved.has(solution.path) && isVersionedPath(solution.path)
+        ? moved.get(solution.path)
+        : buildFilePath(settings, slug, entry.title, language, mapping.entries[slug], entry.difficulty);
+    }
+  }
+}
+
+/**
+ * Apply all moves and deletes, plus refreshed progress files, in one commit.
+ * With `expectedHead`, refuses to run if the branch moved since the preview.
+ */
+export async function applyReorganize(
+  slugs?: string[],
+  expectedHead?: string
+): Promise<{ success: boolean; plan?: ReorganizePlan; error?: string }> {
+  const owner = `reorganize-${Date.now()}`;
+  
+  // Share the queue lease so progress isn't written from two places at once
+  if (!(await acquireQueueLease(owner, LEASE_TTL))) {
+    return { success: false, error: 'Queue is being processed, try again shortly' };
+  }
+  
+  try {
+    const settings = await getSettings();
+    const token = await getToken();
+    
+    if (!isSyncConfigured(settings, token)) {
+      return { success: false, error: 'Repository not configured' };
+    }
+    
+    const provider = createProvider(token, settings);
+    const branch = getSyncBranch(settings);
+    await prepareSyncBranch(provider, settings, branch);
+    if (expectedHead && await provider.getBranchHead(branch) !== expectedHead) {
+      return { success: false, error: 'The repository changed since the preview; preview again' };
+    }
+    
+    await ensureRemoteProgressImported(provider, settings);
+    const tree = await provider.listFiles(branch);
+    const progress = await getProgress();
+    const mapping = await getMapping();
+    const plan = computeReorganizePlan(settings, progress, mapping, tree, slugs);
+    recordReorganizedPaths(settings, progress, mapping, plan, slugs);
+    
+    if (plan.moves.length === 0 && plan.deletes.length === 0) {
+      await saveProgress(progress);
+      return { success: true, plan };
+    }
+    
+    const merged = await commitWithProgress(
+      provider,
+      { ...settings, branch },
+      mapping,
+      progress,
+      [],
+      `🗂️ Reorganize: ${plan.moves.length} moved, ${plan.deletes.length} removed`,
+      {
+        moves: plan.moves.map(({ from, to }) => ({ from, to })),
+        deletes: plan.deletes.map((deletion) => deletion.path),
+      }
+    );
+    
+    await saveProgress(merged);
+    await logger.success(
+      `Repository reorganized: ${plan.moves.length} moved, ${plan.deletes.length} removed`,
+      plan.moves.map((move) => `${move.from} → ${move.to}`).join('\n')
+    );
+    await submitSyncBranch(provider, settings, branch, [], merged);
+    return { success: true, plan };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await logger.error('Failed to reorganize repository', message);
+    return { success: false, error: message };
+  } finally {
+    await releaseQueueLease(owner);
+  }
+}
+
+/**
+ * Move solutions out of Unsorted once the mapping knows their category.
+ * Only looks at recorded paths, so it costs nothing when there's nothing to move.
+ */
+export async function reorganizeNewlySorted(): Promise<void> {
+  const settings = await getSettings();
+  const progress = await getProgress();
+  const mapping = await getMapping();
+  
+  const slugs = Object.entries(progress.solved)
+    .filter(([slug, entry]) => {
+      if (!mapping.entries[slug]?.category) return false;
+      return Object.entries(entry.languages).some(([language, solution]) =>
+        solution.path?.split('/').includes('Unsorted') &&
+        solution.path !== buildFilePath(
+          settings,
+          slug,
+          entry.title,
+          language,
+          mapping.entries[slug],
+          entry.difficulty
+        )
+      );
+    })
+    .map(([slug]) => slug);
+  
+  if (slugs.length === 0) {
+    return;
+  }
+  
+  await logger.info(`Category now known for ${slugs.length} unsorted problems, moving them`);
+  await applyReorganize(slugs);
+}
@@ -1,6 +1,19 @@
 // Storage utilities for NeetSync
 
-import type { Settings, Mapping, Progress, QueueItem } from './types';
+import type {
+  Settings,
+  Mapping,
+  Progress,
+  SolvedEntry,
+  SolveRecord,
+  QueueItem,
+  QueueTargetStatus,
+  QueueLease,
+  FailedItem,
+  RateLimitState,
+  TokenMeta,
+  PendingDeviceFlow,
+} from './types';
 import { DEFAULT_SETTINGS } from './types';
 
 const KEYS = {
@@ -10,6 +23,14 @@ const KEYS = {
   progress: 'neetsync_progress',
   queue: 'neetsync_queue',
   lastSync: 'neetsync_last_sync',
+  rateLimit: 'neetsync_rate_limit',
+  failed: 'neetsync_failed',
+  lease: 'neetsync_queue_lease',
+  progressImportedFrom: 'neetsync_progress_imported_from',
+  tokenExpiresAt: 'neetsync_token_expires_at',
+  tokenMeta: 'neetsync_token_meta',
+  deviceFlow: 'neetsync_device_flow',
+  batchWindow: 'neetsync_batch_window',
 } as const;
 
 // Settings
@@ -31,8 +52,40 @@ export async function getToken(): Promise<string | null> {
   return result[KEYS.token] || null;
 }
 
-export async function saveToken(token: string): Promise<void> {
-  await chrome.storage.local.set({ [KEYS.token]: token });
+export async function saveToken(token: string, meta?: TokenMeta): Promise<void> {
+  await chrome.storage.local.set({
+    [KEYS.token]: token,
+    [KEYS.tokenMeta]: meta || { method: 'pat', obtainedAt: Date.now() },
+  });
+}
+
+export async function getTokenMeta(): Promise<TokenMeta | null> {
+  const result = await chrome.storage.local.get(KEYS.tokenMeta);
+  return result[KEYS.tokenMeta] || null;
+}
+
+export async function saveTokenMeta(meta: TokenMeta): Promise<void> {
+  await chrome.storage.local.set({ [KEYS.tokenMeta]: meta });
+}
+
+// Device flow sign-in in progress
+export async function getPendingDeviceFlow(): Promise<PendingDeviceFlow | null> {
+  const result = await chrome.storage.local.get(KEYS.deviceFlow);
+  return result[KEYS.deviceFlow] || null;
+}
+
+export async function savePendingDeviceFlow(flow: PendingDeviceFlow | null): Promise<void> {
+  await chrome.storage.local.set({ [KEYS.deviceFlow]: flow });
+}
+
+// When the token expires, as reported by GitHub; null if it doesn't or is unknown
+export async function getTokenExpiration(): Promise<number | null> {
+  const result = await chrome.storage.local.get(KEYS.tokenExpiresAt);
+  return result[KEYS.tokenExpiresAt] || null;
+}
+
+export async function saveTokenExpiration(expiresAt: number | null): Promise<void> {
+  await chrome.storage.local.set({ [KEYS.tokenExpiresAt]: expiresAt });
 }
 
 // Mapping
@@ -46,7 +99,7 @@ export async function saveMapping(mapping: Mapping): Promise<void> {
 }
 
 export async function mergeMapping(
-  newEntries: Record<string, { title?: string; category?: string; listName?: string; difficulty?: string; sourceUrl: string }>
+  newEntries: Record<string, { title?: string; category?: string; listName?: string; listIndex?: number; difficulty?: string; sourceUrl: string }>
 ): Promise<Mapping> {
   const current = await getMapping();
   
@@ -58,6 +111,8 @@ export async function mergeMapping(
       title: entry.title || existing.title,
       category: entry.category || existing.category,
       listName: entry.listName || existing.listName,
+      // The index belongs to whichever list name wins
+      listIndex: entry.listName ? entry.listIndex : existing.listIndex,
       difficulty: entry.difficulty || existing.difficulty,
       sources: [...new Set([...(existing.sources || []), entry.sourceUrl])],
     };
@@ -69,32 +124,85 @@ export async function mergeMapping(
 }
 
 // Progress
+/**
+ * Bring an entry from before per-language tracking up to date
+ */
+export function migrateSolvedEntry(entry: SolvedEntry): SolvedEntry {
+  if (entry.languages) {
+    return entry;
+  }
+  return {
+    ...entry,
+    languages: {
+      [entry.language]: { solvedAt: entry.solvedAt, sha256: entry.sha256 },
+    },
+  };
+}
+
 export async function getProgress(): Promise<Progress> {
   const result = await chrome.storage.local.get(KEYS.progress);
-  return result[KEYS.progress] || { solved: {} };
+  const progress: Progress = result[KEYS.progress] || { solved: {} };
+  for (const [slug, entry] of Object.entries(progress.solved)) {
+    progress.solved[slug] = migrateSolvedEntry(entry);
+  }
+  return progress;
 }
 
 export async function saveProgress(progress: Progress): Promise<void> {
   await chrome.storage.local.set({ [KEYS.progress]: progress });
 }
 
-export async function updateSolved(
-  slug: string,
-  data: {
-    title: string;
-    category?: string;
-    listName?: string;
-    difficulty?: string;
-    language: string;
-    solvedAt: number;
-    sha256?: string;
-  }
-): Promise<Progress> {
-  const progress = await getProgress();
-  progress.solved[slug] = {
-    ...progress.solved[slug],
-    ...data,
+/**
+ * Record an accept in progress without losing other languages or earlier attempts
+ */
+export function recordSolve(progress: Progress, slug: string, data: SolveRecord): SolvedEntry {
+  const existing = progress.solved[slug];
+  
+  // Seed history from a legacy entry so its accept isn't lost
+  const attempts = existing?.attempts
+    ? [...existing.attempts]
+    : existing
+      ? [{ at: existing.solvedAt, language: existing.language, sha256: existing.sha256 || '' }]
+      : [];
+  attempts.push({
+    at: data.solvedAt,
+    language: data.language,
+    sha256: data.sha256,
+    runtime: data.runtime,
+    memory: data.memory,
+    path: data.path,
+  });
+  
+  const isLatest = !existing || data.solvedAt >= existing.solvedAt;
+  
+  const entry: SolvedEntry = {
+    title: data.title,
+    category: data.category || existing?.category,
+    listName: data.listName || existing?.listName,
+    difficulty: data.difficulty || existing?.difficulty,
+    language: isLatest ? data.language : existing.language,
+    solvedAt: isLatest ? data.solvedAt : existing.solvedAt,
+    sha256: isLatest ? data.sha256 : existing.sha256,
+    languages: {
+      ...existing?.languages,
+      [data.language]: {
+        solvedAt: data.solvedAt,
+        sha256: data.sha256,
+        runtime: data.runtime,
+        memory: data.memory,
+        path: data.path,
+      },
+    },
+    attempts,
   };
+  
+  progress.solved[slug] = entry;
+  return entry;
+}
+
+export async function updateSolved(slug: string, data: SolveRecord): Promise<Progress> {
+  const progress = await getProgress();
+  recordSolve(progress, slug, data);
   await saveProgress(progress);
   return progress;
 }
@@ -136,6 +244,125 @@ export async function updateQueueItem(id: string, updates: Partial<QueueItem>):
   }
 }
 
+export async function updateQueueTargetStatus(
+  id: string,
+  targetId: string,
+  status: QueueTargetStatus
+): Promise<void> {
+  const queue = await getQueue();
+  const item = queue.find((candidate) => candidate.id === id);
+  if (item) {
+    item.targets = { ...item.targets, [targetId]: { ...item.targets?.[targetId], ...status } };
+    await saveQueue(queue);
+  }
+}
+
+export async function releaseHeldItems(reason?: QueueItem['heldReason']): Promise<number> {
+  const queue = await getQueue();
+  let released = 0;
+  for (const item of queue) {
+    if (item.heldReason && (!reason || item.heldReason === reason)) {
+      delete item.heldReason;
+      item.retries = 0;
+      released++;
+    }
+  }
+  if (released > 0) {
+    await saveQueue(queue);
+  }
+  return released;
+}
+
+// Queue lease
+export async function getQueueLease(): Promise<QueueLease | null> {
+  const result = await chrome.storage.local.get(KEYS.lease);
+  return result[KEYS.lease] || null;
+}
+
+export async function acquireQueueLease(owner: string, ttlMs: number): Promise<boolean> {
+  const now = Date.now();
+  const current = await getQueueLease();
+  if (current && current.owner !== owner && current.expiresAt > now) {
+    return false;
+  }
+  
+  await chrome.storage.local.set({ [KEYS.lease]: { owner, expiresAt: now + ttlMs } });
+  
+  // Storage has no compare-and-set; read back to see who won a simultaneous acquire
+  const confirmed = await getQueueLease();
+  return confirmed?.owner === owner;
+}
+
+export async function releaseQueueLease(owner: string): Promise<void> {
+  const current = await getQueueLease();
+  if (current?.owner === owner) {
+    await chrome.storage.local.remove(KEYS.lease);
+  }
+}
+
+// Failed items (dead letters)
+export async function getFailedItems(): Promise<FailedItem[]> {
+  const result = await chrome.storage.local.get(KEYS.failed);
+  return result[KEYS.failed] || [];
+}
+
+export async function saveFailedItems(failed: FailedItem[]): Promise<void> {
+  await chrome.storage.local.set({ [KEYS.failed]: failed });
+}
+
+export async function moveToFailed(item: QueueItem, error: string): Promise<void> {
+  const failed = await getFailedItems();
+  failed.push({ item, lastError: error, failedAt: Date.now() });
+  await saveFailedItems(failed);
+  await removeFromQueue(item.id);
+}
+
+export async function discardFailedItem(id: string): Promise<boolean> {
+  const failed = await getFailedItems();
+  const filtered = failed.filter((entry) => entry.item.id !== id);
+  if (filtered.length === failed.length) {
+    return false;
+  }
+  await saveFailedItems(filtered);
+  return true;
+}
+
+export async function requeueFailedItem(id: string, pathOverride?: string): Promise<QueueItem | null> {
+  const failed = await getFailedItems();
+  const entry = failed.find((candidate) => candidate.item.id === id);
+  if (!entry) {
+    return null;
+  }
+  
+  const item: QueueItem = {
+    ...entry.item,
+    retries: 0,
+    lastAttempt: undefined,
+    heldReason: undefined,
+    pathOverride: pathOverride || entry.item.pathOverride,
+  };
+  
+  const queue = await getQueue();
+  queue.push(item);
+  await saveQueue(queue);
+  await saveFailedItems(failed.filter((candidate) => candidate !== entry));
+  return item;
+}
+
+// Which repo/branch the remote PROGRESS.json was last merged from
+export async function getProgressImportedFrom(): Promise<string | null> {
+  const result = await chrome.storage.local.get(KEYS.progressImportedFrom);
+  return result[KEYS.progressImportedFrom] || null;
+}
+
+export async function setProgressImportedFrom(target: string): Promise<void> {
+  await chrome.storage.local.set({ [KEYS.progressImportedFrom]: target });
+}
+
+export async function clearProgressImportedFrom(): Promise<void> {
+  await chrome.storage.local.remove(KEYS.progressImportedFrom);
+}
+
 // Last Sync
 export async function getLastSync(): Promise<number | null> {
   const result = await chrome.storage.local.get(KEYS.lastSync);
@@ -145,3 +372,23 @@ export async function getLastSync(): Promise<number | null> {
 export async function setLastSync(timestamp: number): Promise<void> {
   await chrome.storage.local.set({ [KEYS.lastSync]: timestamp });
 }
+
+// When the last batch window opened; solves queued before it may go out
+export async function getBatchWindowAt(): Promise<number> {
+  const result = await chrome.storage.local.get(KEYS.batchWindow);
+  return result[KEYS.batchWindow] || 0;
+}
+
+export async function setBatchWindowAt(timestamp: number): Promise<void> {
+  await chrome.storage.local.set({ [KEYS.batchWindow]: timestamp });
+}
+
+// Rate Limit
+export async function getRateLimitState(): Promise<RateLimitState> {
+  const result = await chrome.storage.local.get(KEYS.rateLimit);
+  return result[KEYS.rateLimit] || {};
+}
+
+export async function saveRateLimitState(state: RateLimitState): Promise<void> {
+  await chrome.storage.local.set({ [KEYS.rateLimit]: state });
+}
@@ -0,0 +1,175 @@
+// Sync targets: the main repository plus any mirrors, and routing between them
+
+import type {
+  Mapping,
+  Progress,
+  QueueItem,
+  RoutedSolve,
+  RoutingField,
+  RoutingRule,
+  Settings,
+  SolvedEntry,
+  SyncTarget,
+} from './types';
+
+const ROUTING_FIELDS: RoutingField[] = ['slug', 'listName', 'category', 'difficulty', 'language'];
+
+// The repository configured in the main settings fields
+export const PRIMARY_TARGET_ID = 'primary';
+
+/**
+ * Every target a solution is synced to, main repository first.
+ * A local folder has no mirrors.
+ */
+export function getSyncTargets(settings: Settings): SyncTarget[] {
+  const primary: SyncTarget = {
+    id: PRIMARY_TARGET_ID,
+    repoFullName: settings.repoFullName,
+    branch: settings.branch,
+    baseDir: settings.baseDir,
+  };
+  if (settings.provider === 'LOCAL') {
+    return [primary];
+  }
+  return [primary, ...(settings.targets || [])];
+}
+
+/**
+ * Settings as seen by one target, so paths, progress files and the client
+ * all point at its repository
+ */
+export function settingsForTarget(settings: Settings, target: SyncTarget): Settings {
+  if (target.id === PRIMARY_TARGET_ID) {
+    return settings;
+  }
+  return {
+    ...settings,
+    repoFullName: target.repoFullName,
+    branch: target.branch,
+    baseDir: target.baseDir,
+    ...(target.pathTemplate ? { organizationMode: 'TEMPLATE', pathTemplate: target.pathTemplate } : {}),
+  };
+}
+
+/**
+ * Whether a queue item still has to be committed to a target
+ */
+export function isPendingFor(item: QueueItem, target: SyncTarget): boolean {
+  return !item.targets?.[target.id]?.syncedAt;
+}
+
+/**
+ * Whether a value matches a rule pattern: comma-separated alternatives,
+ * each compared case-insensitively with * matching anything
+ */
+function matchesPattern(pattern: string, value: string | undefined): boolean {
+  return pattern.split(',').some((alternative) => {
+    const escaped = alternative.trim().replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}$`, 'i').test(value || '');
+  });
+}
+
+function ruleMatches(rule: RoutingRule, solve: RoutedSolve): boolean {
+  return ROUTING_FIELDS.every((field) => !rule.match[field] || matchesPattern(rule.match[field]!, solve[field]));
+}
+
+/**
+ * Where a solve goes and which rule sent it there.
+ *
+ * The first matching rule that names an existing target decides. Without
+ * one, the solve goes to the main repository and to every mirror no rule
+ * mentions, so a mirror named in a rule only gets what rules send it.
+ */
+export function routeSolve(
+  solve: RoutedSolve,
+  settings: Settings
+): { targets: SyncTarget[]; rule: number | null } {
+  const targets = getSyncTargets(settings);
+  const rules = settings.routingRules || [];
+  
+  for (let index = 0; index < rules.length; index++) {
+    const routed = targets.filter((target) => rules[index].targets.includes(target.id));
+    if (routed.length > 0 && ruleMatches(rules[index], solve)) {
+      return { targets: routed, rule: index };
+    }
+  }
+  
+  const mentioned = new Set(rules.flatMap((rule) => rule.targets));
+  return {
+    targets: targets.filter((target) => target.id === PRIMARY_TARGET_ID || !mentioned.has(target.id)),
+    rule: null,
+  };
+}
+
+/**
+ * Routing fields of a queue item, filled in from the mapping
+ */
+export function solveFromItem(item: QueueItem, mapping: Mapping): RoutedSolve {
+  const entry = mapping.entries[item.slug];
+  return {
+    slug: item.slug,
+    listName: item.listName || entry?.listName,
+    category: item.category || entry?.category,
+    difficulty: item.difficulty || entry?.difficulty,
+    language: item.language,
+  };
+}
+
+/**
+ * The targets a queue item is committed to
+ */
+export function getItemTargets(item: QueueItem, settings: Settings, mapping: Mapping): SyncTarget[] {
+  return routeSolve(solveFromItem(item, mapping), settings).targets;
+}
+
+/**
+ * Progress as one target may show it: only the languages routed there, so
+ * e.g. solutions kept out of a public repo don't appear in its PROGRESS.md
+ */
+export function filterProgressForTarget(
+  progress: Progress,
+  targetId: string,
+  settings: Settings,
+  mapping: Mapping
+): Progress {
+  if (!settings.routingRules?.length) {
+    return progress;
+  }
+  
+  const solved: Record<string, SolvedEntry> = {};
+  for (const [slug, entry] of Object.entries(progress.solved)) {
+    const routedHere = (language: string) => routeSolve({
+      slug,
+      listName: entry.listName || mapping.entries[slug]?.listName,
+      category: entry.category || mapping.entries[slug]?.category,
+      difficulty: entry.difficulty || mapping.entries[slug]?.difficulty,
+      language,
+    }, settings).targets.some((target) => target.id === targetId);
+    
+    const languages = Object.entries(entry.languages || { [entry.language]: { solvedAt: entry.solvedAt } })
+      .filter(([language]) => routedHere(language));
+    if (languages.length === 0) {
+      continue;
+    }
+    
+    // The latest accept may have been in a language that stays out
+    const [language, latest] = languages.reduce((a, b) => (b[1].solvedAt > a[1].solvedAt ? b : a));
+    solved[slug] = {
+      ...entry,
+      language,
+      solvedAt: latest.solvedAt,
+      sha256: latest.sha256,
+      languages: Object.fromEntries(languages),
+      attempts: entry.attempts?.filter((attempt) => routedHere(attempt.language)),
+    };
+  }
+  
+  return { solved };
+}
+
+/**
+ * Mirror fields for display and log messages
+ */
+export function describeTarget(target: SyncTarget): string {
+  return `${target.repoFullName}#${target.branch}`;
+}
@@ -1,17 +1,74 @@
 // Type definitions for NeetSync
 
-export type OrganizationMode = 'AUTO' | 'DIFFICULTY' | 'FLAT' | 'CATEGORY';
+export type OrganizationMode = 'AUTO' | 'DIFFICULTY' | 'FLAT' | 'CATEGORY' | 'TEMPLATE';
+
+// Where solutions are synced: a git host, or a folder on this computer
+export type ProviderKind = 'GITHUB' | 'GITLAB' | 'GITEA' | 'LOCAL';
+
+// How commits reach the configured branch
+export type SyncMode = 'DIRECT' | 'PULL_REQUEST';
+
+// When queued solves are committed: right away, or collected and sent on a schedule
+export type BatchMode = 'IMMEDIATE' | 'INTERVAL' | 'DAILY';
+
+// Where repeat accepts of a problem go; NONE falls back to `overwrite`
+export type VersioningMode = 'NONE' | 'SUFFIX' | 'HISTORY' | 'TIMESTAMP';
+
+// A repository every solution is mirrored to, alongside the main one.
+// Mirrors share the main repository's provider, host and token.
+export interface SyncTarget {
+  id: string;
+  repoFullName: string;
+  branch: string;
+  baseDir: string;
+  // Overrides the organization mode for this target when set
+  pathTemplate?: string;
+}
+
+// Solve fields a routing rule can match on
+export type RoutingField = 'slug' | 'listName' | 'category' | 'difficulty' | 'language';
+
+// Sends matching solves to the listed target ids. Every field that is set
+// must match; a field may list alternatives separated by commas and use * wildcards.
+export interface RoutingRule {
+  id: string;
+  match: Partial<Record<RoutingField, string>>;
+  targets: string[];
+}
+
+// What routing sees of a queue item or solved entry
+export type RoutedSolve = Partial<Record<RoutingField, string>> & { slug: string; language: string };
 
 export interface Settings {
   repoFullName: string;
   branch: string;
   baseDir: string;
   organizationMode: OrganizationMode;
+  pathTemplate: string;
   overwrite: boolean;
+  versioning: VersioningMode;
   includeHeader: boolean;
   includeDifficultyFolder: boolean;
   includeListFolderWhenKnown: boolean;
   filenameIncludeSlug: boolean;
+  authorName: string;
+  authorEmail: string;
+  // Commit message templates: one solve, several solves in one commit, progress files only
+  commitMessageTemplate: string;
+  batchCommitTemplate: string;
+  progressCommitTemplate: string;
+  syncMode: SyncMode;
+  autoMerge: boolean;
+  batchMode: BatchMode;
+  batchIntervalMinutes: number;
+  // Local time of day, HH:MM
+  batchDailyTime: string;
+  createRepository: boolean;
+  oauthClientId: string;
+  provider: ProviderKind;
+  apiBaseUrl: string;
+  targets: SyncTarget[];
+  routingRules: RoutingRule[];
   debugMode: boolean;
 }
 
@@ -20,11 +77,29 @@ export const DEFAULT_SETTINGS: Settings = {
   branch: 'main',
   baseDir: 'NeetSync',
   organizationMode: 'AUTO',
+  pathTemplate: '{baseDir}/{list:Problems}/{category:Unsorted}/{title}.{ext}',
   overwrite: true,
+  versioning: 'NONE',
   includeHeader: true,
   includeDifficultyFolder: false,
   includeListFolderWhenKnown: true,
   filenameIncludeSlug: false,
+  authorName: '',
+  authorEmail: '',
+  commitMessageTemplate: '✅ Solve: {title}',
+  batchCommitTemplate: '✅ Solve {count} problems',
+  progressCommitTemplate: '📊 Update progress files',
+  syncMode: 'DIRECT',
+  autoMerge: false,
+  batchMode: 'IMMEDIATE',
+  batchIntervalMinutes: 60,
+  batchDailyTime: '21:00',
+  createRepository: false,
+  oauthClientId: '',
+  provider: 'GITHUB',
+  apiBaseUrl: '',
+  targets: [],
+  routingRules: [],
   debugMode: false,
 };
 
@@ -32,6 +107,7 @@ export interface MappingEntry {
   title?: string;
   category?: string;
   listName?: string;
+  listIndex?: number;
   difficulty?: string;
   sources?: string[];
 }
@@ -42,20 +118,65 @@ export interface Mapping {
   entries: Record<string, MappingEntry>;
 }
 
+export interface SolveAttempt {
+  at: number;
+  language: string;
+  sha256: string;
+  runtime?: string;
+  memory?: string;
+  path?: string;
+}
+
+// Latest accepted solution of a problem in one language
+export interface LanguageSolution {
+  solvedAt: number;
+  sha256?: string;
+  runtime?: string;
+  memory?: string;
+  path?: string;
+}
+
 export interface SolvedEntry {
   title: string;
   category?: string;
   listName?: string;
   difficulty?: string;
+  // Most recent accept across all languages
   language: string;
   solvedAt: number;
   sha256?: string;
+  languages: Record<string, LanguageSolution>;
+  attempts?: SolveAttempt[];
+}
+
+export interface SolveRecord {
+  title: string;
+  category?: string;
+  listName?: string;
+  difficulty?: string;
+  language: string;
+  solvedAt: number;
+  sha256: string;
+  runtime?: string;
+  memory?: string;
+  path?: string;
 }
 
 export interface Progress {
   solved: Record<string, SolvedEntry>;
 }
 
+export interface QueueAttempt {
+  at: number;
+  error: string;
+}
+
+// Where a queue item stands with one sync target
+export interface QueueTargetStatus {
+  syncedAt?: number;
+  lastError?: string;
+}
+
 export interface QueueItem {
   id: string;
   slug: string;
@@ -70,6 +191,120 @@ export interface QueueItem {
   at: number;
   retries: number;
   lastAttempt?: number;
+  // Waiting for a new token, for local folder access to be granted again,
+  // or for progress to be rebuilt over an unreadable PROGRESS.json
+  heldReason?: 'auth' | 'folder' | 'progress';
+  pathOverride?: string;
+  history?: QueueAttempt[];
+  // Keyed by target id; the item leaves the queue once every target has it
+  targets?: Record<string, QueueTargetStatus>;
+  inFlight?: { batchId: string; owner: string; startedAt: number; branch?: string; target?: string };
+}
+
+// Lock that lets only one queue run proceed, even across service worker restarts
+export interface QueueLease {
+  owner: string;
+  expiresAt: number;
+}
+
+// Queue item that gave up; kept so the code isn't lost
+export interface FailedItem {
+  item: QueueItem;
+  lastError: string;
+  failedAt: number;
+}
+
+export interface RateLimitState {
+  remaining?: number;
+  resetAt?: number;
+  pausedUntil?: number;
+}
+
+// How the saved token was obtained, and what's needed to refresh it
+export interface TokenMeta {
+  method: 'pat' | 'device';
+  obtainedAt: number;
+  scope?: string;
+  expiresAt?: number;
+  refreshToken?: string;
+  refreshTokenExpiresAt?: number;
+  // Refreshes in a row that failed on a network or server error
+  refreshFailures?: number;
+}
+
+// Access token issued by the OAuth device flow (or a refresh)
+export interface OAuthToken {
+  accessToken: string;
+  scope?: string;
+  expiresAt?: number;
+  refreshToken?: string;
+  refreshTokenExpiresAt?: number;
+}
+
+export interface DeviceCodeResponse {
+  deviceCode: string;
+  userCode: string;
+  verificationUri: string;
+  expiresIn: number; // seconds
+  interval: number; // seconds
+}
+
+export type DeviceTokenPoll =
+  | { status: 'pending' }
+  | { status: 'slow_down'; interval: number }
+  | { status: 'denied' }
+  | { status: 'expired' }
+  | { status: 'token'; token: OAuthToken };
+
+// Device flow waiting for the user to enter the code on GitHub
+export interface PendingDeviceFlow {
+  deviceCode: string;
+  userCode: string;
+  verificationUri: string;
+  expiresAt: number;
+  interval: number; // seconds
+}
+
+/**
+ * The OAuth exchanges the device flow needs. Any server speaking GitHub's
+ * protocol at the configured web host can answer them.
+ */
+export interface DeviceFlowExchange {
+  requestDeviceCode(clientId: string): Promise<DeviceCodeResponse>;
+  pollToken(clientId: string, deviceCode: string): Promise<DeviceTokenPoll>;
+  refreshToken(clientId: string, refreshToken: string): Promise<OAuthToken>;
+}
+
+// Local folder picked in Options and whether it may still be written to
+export interface LocalFolderStatus {
+  name: string;
+  permission: PermissionState;
+}
+
+// Token and permission diagnostics shown as a checklist
+export type DiagnosticStatus = 'ok' | 'warn' | 'fail';
+
+export interface DiagnosticCheck {
+  id: 'host' | 'token' | 'repository' | 'push' | 'expiry' | 'branch' | 'rateLimit' | 'folder';
+  label: string;
+  status: DiagnosticStatus;
+  detail: string;
+}
+
+export interface DiagnosticsReport {
+  checks: DiagnosticCheck[];
+  tokenExpiresAt: number | null;
+  checkedAt: number;
+}
+
+// Solve recorded in a commit's NeetSync-* trailers
+export interface CommitTrailerRecord {
+  slug: string;
+  title?: string;
+  language: string;
+  difficulty?: string;
+  solvedAt: number;
+  sha256: string;
 }
 
 export interface LogEntry {
@@ -109,6 +344,18 @@ export interface MappingMergePayload {
   updatedAt: number;
 }
 
+export type CommitMessageTemplates = Pick<
+  Settings,
+  'commitMessageTemplate' | 'batchCommitTemplate' | 'progressCommitTemplate'
+>;
+
+// A sample solve checked against routing rules and targets that may not be saved yet
+export interface RoutingPreviewPayload {
+  solve: RoutedSolve;
+  rules?: RoutingRule[];
+  targets?: SyncTarget[];
+}
+
 export type MessageType =
   | { type: 'NEETSYNC_SUBMISSION_ACCEPTED'; payload: SubmissionPayload }
   | { type: 'NEETSYNC_MAPPING_MERGE'; payload: MappingMergePayload }
@@ -119,13 +366,34 @@ export type MessageType =
   | { type: 'NEETSYNC_GET_STATE' }
   | { type: 'NEETSYNC_CLEAR_LOGS' }
   | { type: 'NEETSYNC_PROCESS_QUEUE' }
+  | { type: 'NEETSYNC_PREVIEW_PATH_TEMPLATE'; payload: { template: string; baseDir?: string } }
+  | { type: 'NEETSYNC_PREVIEW_ROUTING'; payload: RoutingPreviewPayload }
+  | { type: 'NEETSYNC_PREVIEW_COMMIT_MESSAGES'; payload: CommitMessageTemplates }
+  | { type: 'NEETSYNC_IMPORT_PROGRESS' }
+  | { type: 'NEETSYNC_REBUILD_FROM_HISTORY' }
+  | { type: 'NEETSYNC_RUN_DIAGNOSTICS' }
+  | { type: 'NEETSYNC_DEVICE_FLOW_START' }
+  | { type: 'NEETSYNC_DEVICE_FLOW_CANCEL' }
+  | { type: 'NEETSYNC_FOLDER_GRANTED'; payload: { changed: boolean } }
+  | { type: 'NEETSYNC_REORGANIZE_PLAN' }
+  | { type: 'NEETSYNC_REORGANIZE_APPLY'; payload: { headSha?: string } }
+  | { type: 'NEETSYNC_GET_FAILED' }
+  | { type: 'NEETSYNC_RETRY_FAILED'; payload: { id: string; path?: string } }
+  | { type: 'NEETSYNC_DISCARD_FAILED'; payload: { id: string } }
   | { type: 'NEETSYNC_REQUEST_CATALOG_PARSE' };
 
 export interface GitHubFileResponse {
   sha: string;
+  size?: number;
+  // Empty for files over 1 MB; read those through the blob API
   content?: string;
 }
 
+export interface GitHubBlobResponse {
+  sha: string;
+  content: string;
+}
+
 export interface GitHubCreateFileRequest {
   message: string;
   content: string;
@@ -133,6 +401,324 @@ export interface GitHubCreateFileRequest {
   sha?: string;
 }
 
+export interface GitHubRefResponse {
+  ref: string;
+  object: { sha: string; type: string };
+}
+
+export interface GitHubCommitResponse {
+  sha: string;
+  tree: { sha: string };
+  parents?: Array<{ sha: string }>;
+}
+
+export interface GitHubCommitListItem {
+  sha: string;
+  commit: { message: string };
+}
+
+export interface GitHubRepoResponse {
+  name: string;
+  default_branch: string;
+  private: boolean;
+  permissions?: { admin: boolean; push: boolean; pull: boolean };
+}
+
+// What verifyAccess may set up when it's missing
+export interface BootstrapOptions {
+  branch: string;
+  createRepository: boolean;
+  initialFiles: CommitFile[];
+}
+
+export interface BootstrapResult {
+  valid: boolean;
+  error?: string;
+  created: string[];
+}
+
+export interface GitHubBranchResponse {
+  name: string;
+  protected: boolean;
+}
+
+export interface GitHubRateLimitResponse {
+  resources: {
+    core: { limit: number; remaining: number; reset: number };
+  };
+}
+
+export interface GitHubPullRequest {
+  number: number;
+  node_id: string;
+  html_url: string;
+  body: string | null;
+  merged_at?: string | null;
+  head: { sha: string };
+}
+
+export interface GitHubCompareResponse {
+  status: 'diverged' | 'ahead' | 'behind' | 'identical';
+  ahead_by: number;
+  behind_by: number;
+}
+
+export interface GitHubUserResponse {
+  login: string;
+  id: number;
+  name: string | null;
+  email: string | null;
+}
+
+export interface GitHubShaResponse {
+  sha: string;
+}
+
+export interface GitHubTreeEntry {
+  path: string;
+  mode: '100644';
+  type: 'blob';
+  // null deletes the path
+  sha: string | null;
+}
+
+export interface GitHubTreeResponse {
+  sha: string;
+  truncated: boolean;
+  tree: Array<{ path: string; type: 'blob' | 'tree' | 'commit'; sha: string }>;
+}
+
+export interface GitLabProjectResponse {
+  path_with_namespace: string;
+  default_branch: string | null;
+  empty_repo: boolean;
+  web_url: string;
+}
+
+export interface GitLabBranchResponse {
+  name: string;
+  protected: boolean;
+  commit: { id: string };
+}
+
+export interface GitLabFileResponse {
+  blob_id: string;
+  last_commit_id: string;
+  content: string;
+}
+
+export interface GitLabTreeItem {
+  path: string;
+  type: 'blob' | 'tree' | 'commit';
+  id: string;
+}
+
+export interface GitLabCommit {
+  id: string;
+  message: string;
+}
+
+export interface GitLabCompareResponse {
+  commits: GitLabCommit[];
+}
+
+// One change in a commits API request
+export interface GitLabCommitAction {
+  action: 'create' | 'update' | 'move' | 'delete';
+  file_path: string;
+  previous_path?: string;
+  content?: string;
+  encoding?: 'base64';
+  last_commit_id?: string;
+}
+
+export interface GitLabMergeRequest {
+  iid: number;
+  web_url: string;
+  description: string | null;
+  state: 'opened' | 'closed' | 'locked' | 'merged';
+  // Head of the source branch
+  sha: string;
+}
+
+export interface GitLabUserResponse {
+  id: number;
+  username: string;
+  name: string;
+  public_email?: string | null;
+  commit_email?: string | null;
+}
+
+export interface GiteaRepoResponse {
+  full_name: string;
+  default_branch: string;
+  empty: boolean;
+  private: boolean;
+  html_url: string;
+}
+
+export interface GiteaBranchResponse {
+  name: string;
+  protected: boolean;
+  commit: { id: string };
+}
+
+export interface GiteaContentsResponse {
+  type: 'file' | 'dir' | 'symlink' | 'submodule';
+  sha: string;
+  content: string | null;
+}
+
+// One change in a change-files request; update and delete need the current blob SHA
+export interface GiteaFileChange {
+  operation: 'create' | 'update' | 'delete';
+  path: string;
+  content?: string;
+  sha?: string;
+  // Rename: the file's old path, on an update
+  from_path?: string;
+}
+
+export interface GiteaFilesResponse {
+  commit: { sha: string };
+}
+
+export interface GiteaTreeResponse {
+  sha: string;
+  truncated: boolean;
+  page: number;
+  total_count: number;
+  tree: Array<{ path: string; type: 'blob' | 'tree' | 'commit'; sha: string }>;
+}
+
+export interface GiteaCommitListItem {
+  sha: string;
+  commit: { message: string };
+}
+
+export interface GiteaCompareResponse {
+  total_commits: number;
+}
+
+export interface GiteaPullRequest {
+  number: number;
+  html_url: string;
+  body: string | null;
+  merged: boolean;
+  head: { ref: string; sha: string };
+  base: { ref: string };
+}
+
+export interface GiteaUserResponse {
+  id: number;
+  login: string;
+  full_name: string;
+  email: string;
+}
+
+export interface ReorganizeMove {
+  slug: string;
+  language: string;
+  from: string;
+  to: string;
+}
+
+export interface ReorganizeDelete {
+  slug: string;
+  language: string;
+  path: string;
+}
+
+// Dry-run result of recomputing every solved entry's path
+export interface ReorganizePlan {
+  moves: ReorganizeMove[];
+  deletes: ReorganizeDelete[];
+  missing: Array<{ slug: string; language: string }>;
+  // Branch head the plan was computed against
+  headSha?: string;
+}
+
+// A single file to be written as part of a multi-file commit
+export interface CommitFile {
+  path: string;
+  content: string;
+}
+
+// Author or committer of a commit; `date` is ISO 8601
+export interface CommitIdentity {
+  name: string;
+  email: string;
+  date?: string;
+}
+
+// Text file read from the repository; `sha` is its blob id
+export interface RepoFile {
+  sha: string;
+  text: string;
+}
+
+export interface CommitSummary {
+  sha: string;
+  message: string;
+}
+
+// Every file on a branch; `truncated` if the host stopped listing early
+export interface RepoTree {
+  paths: string[];
+  truncated: boolean;
+}
+
+export interface CommitOptions {
+  // Build on this commit and fail with ShaConflictError if the branch moved
+  parentSha?: string;
+  author?: CommitIdentity;
+  moves?: Array<{ from: string; to: string }>;
+  deletes?: string[];
+}
+
+// Pull request (GitHub) or merge request (GitLab) to open, or to add lines to
+export interface ChangeRequestOptions {
+  sourceBranch: string;
+  targetBranch: string;
+  title: string;
+  header: string;
+  lines: string[];
+  autoMerge: boolean;
+}
+
+export interface ChangeRequestResult {
+  number: number;
+  url: string;
+  created: boolean;
+  // Lines that weren't in the description yet
+  added: number;
+  merged: boolean;
+  // Set when auto-merge was asked for but couldn't be turned on
+  autoMergeError?: string;
+}
+
+/**
+ * A sync target NeetSync can write to. Sync logic only talks to the
+ * repository through this, never to a particular host's client.
+ */
+export interface GitProvider {
+  readonly name: string;
+  // "pull request" or "merge request", for log messages
+  readonly changeRequestName: string;
+  // Token expiry reported by the host; undefined until known
+  tokenExpiresAt?: number | null;
+  getFile(path: string, ref: string): Promise<RepoFile | null>;
+  getBranchHead(branch: string): Promise<string>;
+  listCommits(branch: string, perPage?: number, page?: number): Promise<CommitSummary[]>;
+  listFiles(ref: string): Promise<RepoTree>;
+  commitFiles(files: CommitFile[], message: string, branch: string, options?: CommitOptions): Promise<string>;
+  getCommitIdentity(authorName: string, authorEmail: string): Promise<CommitIdentity>;
+  verifyAccess(options: BootstrapOptions): Promise<BootstrapResult>;
+  // Returns true if the branch had to be created
+  prepareChangeBranch(branch: string, base: string): Promise<boolean>;
+  openChangeRequest(options: ChangeRequestOptions): Promise<ChangeRequestResult>;
+}
+
 // Language extension mapping
 export const LANGUAGE_EXTENSIONS: Record<string, string> = {
   'python': 'py',
@@ -112,6 +112,14 @@ export const LIST_SELECTORS = {
     '[class*="section"]',
   ],
   
+  // Element holding the list itself, as opposed to sidebars and "related" links
+  listContainer: [
+    '[class*="problem-list"]',
+    '[class*="problems-list"]',
+    'table',
+    'main',
+  ],
+  
   problemRow: [
     'tr',
     '[class*="problem-row"]',
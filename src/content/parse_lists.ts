@@ -7,6 +7,7 @@ export interface ParsedProblem {
   title?: string;
   category?: string;
   listName?: string;
+  listIndex?: number;
   difficulty?: string;
 }
 
@@ -110,6 +111,28 @@ function findNearestCategory(element: Element): string | undefined {
   return undefined;
 }
 
+/**
+ * Find the element holding the list: for the first selector that matches,
+ * the match with the most problem links
+ */
+function findListContainer(): Element | null {
+  for (const selector of LIST_SELECTORS.listContainer) {
+    let best: Element | null = null;
+    let bestCount = 0;
+    for (const element of document.querySelectorAll(selector)) {
+      const count = element.querySelectorAll('a[href*="/problems/"]').length;
+      if (count > bestCount) {
+        best = element;
+        bestCount = count;
+      }
+    }
+    if (best && bestCount >= 5) {
+      return best;
+    }
+  }
+  return null;
+}
+
 /**
  * Extract problem slug from URL
  */
@@ -127,6 +150,10 @@ export function parseProblems(): ParsedProblem[] {
   
   const listName = getListName();
   
+  // Only rows inside the list get an index; other links on the page would shift it
+  const container = listName ? findListContainer() : null;
+  let position = 0;
+  
   // Find all problem links
   const links = document.querySelectorAll('a[href*="/problems/"]');
   
@@ -152,9 +179,15 @@ export function parseProblems(): ParsedProblem[] {
       }
     }
     
-    // Clean up title (remove number prefixes like "1. Two Sum")
+    // Clean up title (remove number prefixes like "1. Two Sum"), keeping the row number
+    const rowNumber = title.match(/^(\d+)\.\s*/);
     title = title.replace(/^\d+\.\s*/, '');
     
+    const inList = container?.contains(link) ?? false;
+    if (inList) {
+      position++;
+    }
+    
     // Find category
     const category = findNearestCategory(link);
     
@@ -176,6 +209,8 @@ export function parseProblems(): ParsedProblem[] {
       title: title || undefined,
       category,
       listName,
+      // The number NeetCode shows, else the 1-based position within the list
+      listIndex: inList ? (rowNumber ? parseInt(rowNumber[1], 10) : position) : undefined,
       difficulty,
     });
   }
@@ -189,14 +224,15 @@ export function parseProblems(): ParsedProblem[] {
 export function problemsToMappingEntries(
   problems: ParsedProblem[],
   sourceUrl: string
-): Record<string, { title?: string; category?: string; listName?: string; difficulty?: string; sourceUrl: string }> {
-  const entries: Record<string, { title?: string; category?: string; listName?: string; difficulty?: string; sourceUrl: string }> = {};
+): Record<string, { title?: string; category?: string; listName?: string; listIndex?: number; difficulty?: string; sourceUrl: string }> {
+  const entries: Record<string, { title?: string; category?: string; listName?: string; listIndex?: number; difficulty?: string; sourceUrl: string }> = {};
   
   for (const problem of problems) {
     entries[problem.slug] = {
       title: problem.title,
       category: problem.category,
       listName: problem.listName,
+      listIndex: problem.listIndex,
       difficulty: problem.difficulty,
       sourceUrl,
     };
@@ -1,5 +1,5 @@
 // Options page script for NeetSync
-export {};
+import { getFolderHandle, saveFolderHandle } from '../../background/folder';
 
 // Helper to send message with timeout
 async function sendMessageWithTimeout<T>(message: unknown, timeoutMs = 5000): Promise<T> {
@@ -19,25 +19,100 @@ async function sendMessageWithTimeout<T>(message: unknown, timeoutMs = 5000): Pr
   });
 }
 
+interface SyncTarget {
+  id: string;
+  repoFullName: string;
+  branch: string;
+  baseDir: string;
+  pathTemplate?: string;
+}
+
+type RoutingField = 'slug' | 'listName' | 'category' | 'difficulty' | 'language';
+
+interface RoutingRule {
+  id: string;
+  match: Partial<Record<RoutingField, string>>;
+  targets: string[];
+}
+
+const ROUTING_FIELDS: Array<{ field: RoutingField; placeholder: string }> = [
+  { field: 'slug', placeholder: 'Slug' },
+  { field: 'language', placeholder: 'Language' },
+  { field: 'difficulty', placeholder: 'Difficulty' },
+  { field: 'category', placeholder: 'Category' },
+  { field: 'listName', placeholder: 'List' },
+];
+
 interface OptionsSettings {
   repoFullName: string;
   branch: string;
   baseDir: string;
   organizationMode: string;
+  pathTemplate: string;
   overwrite: boolean;
+  versioning: string;
   includeHeader: boolean;
   includeDifficultyFolder: boolean;
   includeListFolderWhenKnown: boolean;
   filenameIncludeSlug: boolean;
+  authorName: string;
+  authorEmail: string;
+  commitMessageTemplate: string;
+  batchCommitTemplate: string;
+  progressCommitTemplate: string;
+  createRepository: boolean;
+  oauthClientId: string;
+  provider: string;
+  apiBaseUrl: string;
+  targets: SyncTarget[];
+  routingRules: RoutingRule[];
+  syncMode: string;
+  autoMerge: boolean;
+  batchMode: string;
+  batchIntervalMinutes: number;
+  batchDailyTime: string;
   debugMode: boolean;
 }
 
 interface OptionsState {
   settings: OptionsSettings;
+  folder: { name: string; permission: PermissionState } | null;
   hasToken: boolean;
   mappingCount: number;
   solvedCount: number;
   queueCount: number;
+  failedCount: number;
+}
+
+interface ReorganizePlan {
+  moves: Array<{ slug: string; language: string; from: string; to: string }>;
+  deletes: Array<{ slug: string; language: string; path: string }>;
+  missing: Array<{ slug: string; language: string }>;
+  headSha?: string;
+}
+
+interface DiagnosticCheck {
+  id: string;
+  label: string;
+  status: 'ok' | 'warn' | 'fail';
+  detail: string;
+}
+
+interface FailedEntry {
+  item: {
+    id: string;
+    slug: string;
+    title: string;
+    language: string;
+    code: string;
+    at: number;
+    retries: number;
+    history?: Array<{ at: number; error: string }>;
+    targets?: Record<string, { syncedAt?: number; lastError?: string }>;
+  };
+  lastError: string;
+  failedAt: number;
+  targetPath: string;
 }
 
 // Elements
@@ -46,15 +121,64 @@ const elements = {
   branchInput: document.getElementById('branchInput') as HTMLInputElement,
   baseDirInput: document.getElementById('baseDirInput') as HTMLInputElement,
   orgModeSelect: document.getElementById('orgModeSelect') as HTMLSelectElement,
+  templateGroup: document.getElementById('templateGroup')!,
+  pathTemplateInput: document.getElementById('pathTemplateInput') as HTMLInputElement,
+  templateErrors: document.getElementById('templateErrors')!,
+  templatePreview: document.getElementById('templatePreview')!,
   includeDifficultyFolder: document.getElementById('includeDifficultyFolder') as HTMLInputElement,
   includeListFolder: document.getElementById('includeListFolder') as HTMLInputElement,
   filenameIncludeSlug: document.getElementById('filenameIncludeSlug') as HTMLInputElement,
   includeHeader: document.getElementById('includeHeader') as HTMLInputElement,
+  reorganizePlan: document.getElementById('reorganizePlan')!,
+  previewReorganizeBtn: document.getElementById('previewReorganizeBtn')!,
+  applyReorganizeBtn: document.getElementById('applyReorganizeBtn')!,
   overwrite: document.getElementById('overwrite') as HTMLInputElement,
+  versioningSelect: document.getElementById('versioningSelect') as HTMLSelectElement,
+  createRepository: document.getElementById('createRepository') as HTMLInputElement,
+  providerSelect: document.getElementById('providerSelect') as HTMLSelectElement,
+  folderGroup: document.getElementById('folderGroup')!,
+  folderName: document.getElementById('folderName')!,
+  chooseFolderBtn: document.getElementById('chooseFolderBtn')!,
+  regrantFolderBtn: document.getElementById('regrantFolderBtn')!,
+  apiBaseUrlInput: document.getElementById('apiBaseUrlInput') as HTMLInputElement,
+  oauthClientIdInput: document.getElementById('oauthClientIdInput') as HTMLInputElement,
+  targetList: document.getElementById('targetList')!,
+  addTargetBtn: document.getElementById('addTargetBtn')!,
+  ruleList: document.getElementById('ruleList')!,
+  addRuleBtn: document.getElementById('addRuleBtn')!,
+  routePreviewSlug: document.getElementById('routePreviewSlug') as HTMLInputElement,
+  routePreviewLanguage: document.getElementById('routePreviewLanguage') as HTMLInputElement,
+  routePreviewDifficulty: document.getElementById('routePreviewDifficulty') as HTMLInputElement,
+  routePreviewCategory: document.getElementById('routePreviewCategory') as HTMLInputElement,
+  routePreviewList: document.getElementById('routePreviewList') as HTMLInputElement,
+  previewRoutingBtn: document.getElementById('previewRoutingBtn')!,
+  routePreview: document.getElementById('routePreview')!,
+  diagnosticsList: document.getElementById('diagnosticsList')!,
+  runDiagnosticsBtn: document.getElementById('runDiagnosticsBtn')!,
+  expiryNotifications: document.getElementById('expiryNotifications') as HTMLInputElement,
+  syncModeSelect: document.getElementById('syncModeSelect') as HTMLSelectElement,
+  autoMerge: document.getElementById('autoMerge') as HTMLInputElement,
+  batchModeSelect: document.getElementById('batchModeSelect') as HTMLSelectElement,
+  batchIntervalGroup: document.getElementById('batchIntervalGroup')!,
+  batchIntervalInput: document.getElementById('batchIntervalInput') as HTMLInputElement,
+  batchTimeGroup: document.getElementById('batchTimeGroup')!,
+  batchTimeInput: document.getElementById('batchTimeInput') as HTMLInputElement,
+  authorNameInput: document.getElementById('authorNameInput') as HTMLInputElement,
+  authorEmailInput: document.getElementById('authorEmailInput') as HTMLInputElement,
+  commitMessageInput: document.getElementById('commitMessageInput') as HTMLInputElement,
+  batchCommitInput: document.getElementById('batchCommitInput') as HTMLInputElement,
+  progressCommitInput: document.getElementById('progressCommitInput') as HTMLInputElement,
+  commitMessageErrors: document.getElementById('commitMessageErrors')!,
+  commitMessagePreview: document.getElementById('commitMessagePreview')!,
   debugMode: document.getElementById('debugMode') as HTMLInputElement,
   solvedCount: document.getElementById('solvedCount')!,
   mappingCount: document.getElementById('mappingCount')!,
   queueCount: document.getElementById('queueCount')!,
+  failedCount: document.getElementById('failedCount')!,
+  failedList: document.getElementById('failedList')!,
+  exportFailedBtn: document.getElementById('exportFailedBtn')!,
+  importProgressBtn: document.getElementById('importProgressBtn')!,
+  rebuildHistoryBtn: document.getElementById('rebuildHistoryBtn')!,
   exportDataBtn: document.getElementById('exportDataBtn')!,
   clearMappingBtn: document.getElementById('clearMappingBtn')!,
   clearAllBtn: document.getElementById('clearAllBtn')!,
@@ -64,10 +188,15 @@ const elements = {
 
 // State
 let currentState: OptionsState | null = null;
+let failedItems: FailedEntry[] = [];
+let previewTimeout: ReturnType<typeof setTimeout> | null = null;
+let commitMessagePreviewTimeout: ReturnType<typeof setTimeout> | null = null;
+let previewedReorganizeHead: string | undefined;
 
 // Initialize
 document.addEventListener('DOMContentLoaded', () => {
   loadState();
+  loadNotificationPermission();
   setupEventListeners();
 });
 
@@ -76,12 +205,21 @@ async function loadState(): Promise<void> {
     const response = await sendMessageWithTimeout<OptionsState>({ type: 'NEETSYNC_GET_STATE' });
     currentState = response;
     updateUI();
+    await loadFailedItems();
   } catch (error) {
     console.error('Failed to load state:', error);
     showStatus('Failed to load settings: ' + (error as Error).message, true);
   }
 }
 
+async function loadFailedItems(): Promise<void> {
+  const response = await sendMessageWithTimeout<{ success: boolean; items: FailedEntry[] }>({
+    type: 'NEETSYNC_GET_FAILED',
+  });
+  failedItems = response.items || [];
+  renderFailedItems();
+}
+
 function updateUI(): void {
   if (!currentState) return;
   
@@ -92,6 +230,26 @@ function updateUI(): void {
   elements.branchInput.value = settings.branch || 'main';
   elements.baseDirInput.value = settings.baseDir || 'NeetSync';
   elements.orgModeSelect.value = settings.organizationMode || 'AUTO';
+  elements.pathTemplateInput.value = settings.pathTemplate || '';
+  updateTemplateVisibility();
+  elements.versioningSelect.value = settings.versioning || 'NONE';
+  elements.providerSelect.value = settings.provider || 'GITHUB';
+  updateFolderUI();
+  elements.apiBaseUrlInput.value = settings.apiBaseUrl || '';
+  elements.oauthClientIdInput.value = settings.oauthClientId || '';
+  renderTargets(settings.targets || []);
+  renderRules(settings.routingRules || []);
+  elements.syncModeSelect.value = settings.syncMode || 'DIRECT';
+  elements.batchModeSelect.value = settings.batchMode || 'IMMEDIATE';
+  elements.batchIntervalInput.value = String(settings.batchIntervalMinutes || 60);
+  elements.batchTimeInput.value = settings.batchDailyTime || '21:00';
+  updateBatchVisibility();
+  elements.authorNameInput.value = settings.authorName || '';
+  elements.authorEmailInput.value = settings.authorEmail || '';
+  elements.commitMessageInput.value = settings.commitMessageTemplate || '';
+  elements.batchCommitInput.value = settings.batchCommitTemplate || '';
+  elements.progressCommitInput.value = settings.progressCommitTemplate || '';
+  scheduleCommitMessagePreview();
   
   // Checkboxes
   elements.includeDifficultyFolder.checked = settings.includeDifficultyFolder || false;
@@ -99,19 +257,582 @@ function updateUI(): void {
   elements.filenameIncludeSlug.checked = settings.filenameIncludeSlug || false;
   elements.includeHeader.checked = settings.includeHeader !== false;
   elements.overwrite.checked = settings.overwrite !== false;
+  elements.createRepository.checked = settings.createRepository || false;
+  elements.autoMerge.checked = settings.autoMerge || false;
   elements.debugMode.checked = settings.debugMode || false;
   
   // Stats
   elements.solvedCount.textContent = currentState.solvedCount.toString();
   elements.mappingCount.textContent = currentState.mappingCount.toString();
   elements.queueCount.textContent = currentState.queueCount.toString();
+  elements.failedCount.textContent = (currentState.failedCount || 0).toString();
+}
+
+function updateFolderUI(): void {
+  const folder = currentState?.folder;
+  const lapsed = !!folder && folder.permission !== 'granted';
+  
+  elements.folderGroup.hidden = elements.providerSelect.value !== 'LOCAL';
+  elements.folderName.textContent = folder
+    ? lapsed ? `${folder.name} (access needs granting again)` : folder.name
+    : 'No folder chosen';
+  elements.folderName.className = lapsed ? 'folder-name warning' : 'folder-name';
+  elements.regrantFolderBtn.hidden = !lapsed;
+}
+
+function renderTargets(targets: SyncTarget[]): void {
+  elements.targetList.innerHTML = targets.map((target) => `
+    <div class="target-item" data-id="${escapeHtml(target.id)}">
+      <input type="text" class="target-repo" value="${escapeHtml(target.repoFullName)}" placeholder="owner/repo" title="Repository">
+      <input type="text" class="target-branch" value="${escapeHtml(target.branch)}" placeholder="main" title="Branch">
+      <input type="text" class="target-basedir" value="${escapeHtml(target.baseDir)}" placeholder="NeetSync" title="Base directory">
+      <input type="text" class="target-template" value="${escapeHtml(target.pathTemplate || '')}" placeholder="Path template (optional)" title="Path template">
+      <button type="button" class="btn secondary danger" data-action="remove-target">Remove</button>
+    </div>
+  `).join('');
+}
+
+/**
+ * Read the mirror rows back; rows left without a repository are dropped
+ */
+function readTargets(): SyncTarget[] {
+  return Array.from(elements.targetList.querySelectorAll<HTMLElement>('.target-item'))
+    .map((row) => {
+      const value = (selector: string) => row.querySelector<HTMLInputElement>(selector)?.value.trim() || '';
+      return {
+        id: row.dataset.id!,
+        repoFullName: value('.target-repo'),
+        branch: value('.target-branch') || 'main',
+        baseDir: value('.target-basedir') || 'NeetSync',
+        pathTemplate: value('.target-template') || undefined,
+      };
+    })
+    .filter((target) => target.repoFullName);
+}
+
+function addTarget(): void {
+  const targets = readTargets();
+  targets.push({
+    id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    repoFullName: '',
+    branch: 'main',
+    baseDir: elements.baseDirInput.value.trim() || 'NeetSync',
+  });
+  renderTargets(targets);
+  elements.targetList.querySelector<HTMLInputElement>('.target-item:last-child .target-repo')?.focus();
+}
+
+function handleTargetAction(event: Event): void {
+  const button = (event.target as HTMLElement).closest<HTMLButtonElement>('button[data-action="remove-target"]');
+  if (button) {
+    button.closest('.target-item')?.remove();
+    renderRules(readRules());
+  }
+}
+
+/**
+ * Targets a rule can send solves to, as currently entered in the form
+ */
+function getTargetChoices(): Array<{ id: string; label: string }> {
+  return [
+    { id: 'primary', label: elements.repoInput.value.trim() || 'Main repository' },
+    ...readTargets().map((target) => ({ id: target.id, label: target.repoFullName })),
+  ];
+}
+
+function renderRules(rules: RoutingRule[]): void {
+  const choices = getTargetChoices();
+  
+  elements.ruleList.innerHTML = rules.map((rule) => `
+    <div class="rule-item" data-id="${escapeHtml(rule.id)}">
+      <div class="rule-fields">
+        ${ROUTING_FIELDS.map(({ field, placeholder }) => `
+          <input type="text" data-field="${field}" value="${escapeHtml(rule.match[field] || '')}" placeholder="${placeholder}" title="${placeholder}">
+        `).join('')}
+      </div>
+      <div class="rule-targets">
+        <span>→</span>
+        ${choices.map((choice) => `
+          <label>
+            <input type="checkbox" value="${escapeHtml(choice.id)}" ${rule.targets.includes(choice.id) ? 'checked' : ''}>
+            <span>${escapeHtml(choice.label)}</span>
+          </label>
+        `).join('')}
+      </div>
+      <button type="button" class="btn secondary danger" data-action="remove-rule">Remove</button>
+    </div>
+  `).join('');
+}
+
+/**
+ * Read the rule rows back; targets that were removed drop out
+ */
+function readRules(): RoutingRule[] {
+  return Array.from(elements.ruleList.querySelectorAll<HTMLElement>('.rule-item')).map((row) => {
+    const match: RoutingRule['match'] = {};
+    for (const input of row.querySelectorAll<HTMLInputElement>('input[data-field]')) {
+      if (input.value.trim()) {
+        match[input.dataset.field as RoutingField] = input.value.trim();
+      }
+    }
+    const targets = Array.from(row.querySelectorAll<HTMLInputElement>('.rule-targets input:checked'))
+      .map((input) => input.value);
+    return { id: row.dataset.id!, match, targets };
+  });
+}
+
+function addRule(): void {
+  const rules = readRules();
+  rules.push({
+    id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    match: {},
+    targets: ['primary'],
+  });
+  renderRules(rules);
+  elements.ruleList.querySelector<HTMLInputElement>('.rule-item:last-child input[data-field]')?.focus();
+}
+
+function handleRuleAction(event: Event): void {
+  const button = (event.target as HTMLElement).closest<HTMLButtonElement>('button[data-action="remove-rule"]');
+  button?.closest('.rule-item')?.remove();
+}
+
+async function previewRouting(): Promise<void> {
+  const slug = elements.routePreviewSlug.value.trim();
+  const language = elements.routePreviewLanguage.value.trim();
+  if (!slug || !language) {
+    showStatus('Enter a slug and language to check', true);
+    return;
+  }
+  
+  try {
+    const result = await sendMessageWithTimeout<{
+      targets: Array<{ id: string; label: string }>;
+      rule: number | null;
+    }>({
+      type: 'NEETSYNC_PREVIEW_ROUTING',
+      payload: {
+        solve: {
+          slug,
+          language,
+          difficulty: elements.routePreviewDifficulty.value.trim() || undefined,
+          category: elements.routePreviewCategory.value.trim() || undefined,
+          listName: elements.routePreviewList.value.trim() || undefined,
+        },
+        rules: readRules(),
+        targets: readTargets(),
+      },
+    });
+    
+    const reason = result.rule === null ? 'no rule matched' : `rule ${result.rule + 1}`;
+    elements.routePreview.innerHTML = [
+      ...result.targets.map((target) => `<li>→ ${escapeHtml(target.label)}</li>`),
+      `<li>(${reason})</li>`,
+    ].join('');
+  } catch (error) {
+    console.error('Failed to preview routing:', error);
+    showStatus('Failed to preview routing: ' + (error as Error).message, true);
+  }
+}
+
+/**
+ * Repository name for a target id, as stored in a queue item's status
+ */
+function targetLabel(id: string): string {
+  const settings = currentState?.settings;
+  if (id === 'primary') {
+    return settings?.repoFullName || 'main repository';
+  }
+  return settings?.targets?.find((target) => target.id === id)?.repoFullName || 'removed mirror';
+}
+
+function updateBatchVisibility(): void {
+  elements.batchIntervalGroup.hidden = elements.batchModeSelect.value !== 'INTERVAL';
+  elements.batchTimeGroup.hidden = elements.batchModeSelect.value !== 'DAILY';
+}
+
+function updateTemplateVisibility(): void {
+  const isTemplate = elements.orgModeSelect.value === 'TEMPLATE';
+  elements.templateGroup.hidden = !isTemplate;
+  if (isTemplate) {
+    schedulePreview();
+  }
+}
+
+function schedulePreview(): void {
+  if (previewTimeout) {
+    clearTimeout(previewTimeout);
+  }
+  previewTimeout = setTimeout(previewTemplate, 300);
+}
+
+async function previewTemplate(): Promise<boolean> {
+  try {
+    const result = await sendMessageWithTimeout<{
+      success: boolean;
+      errors: string[];
+      samples: Array<{ slug: string; path: string }>;
+    }>({
+      type: 'NEETSYNC_PREVIEW_PATH_TEMPLATE',
+      payload: {
+        template: elements.pathTemplateInput.value.trim(),
+        baseDir: elements.baseDirInput.value.trim() || 'NeetSync',
+      },
+    });
+    
+    elements.templateErrors.textContent = result.errors.join(' • ');
+    elements.templatePreview.innerHTML = result.samples
+      .map((sample) => `<li>${escapeHtml(sample.path)}</li>`)
+      .join('');
+    return result.success;
+  } catch (error) {
+    console.error('Failed to preview template:', error);
+    elements.templateErrors.textContent = 'Preview unavailable: ' + (error as Error).message;
+    return false;
+  }
+}
+
+function readCommitTemplates(): Pick<OptionsSettings, 'commitMessageTemplate' | 'batchCommitTemplate' | 'progressCommitTemplate'> {
+  return {
+    commitMessageTemplate: elements.commitMessageInput.value.trim() || '✅ Solve: {title}',
+    batchCommitTemplate: elements.batchCommitInput.value.trim() || '✅ Solve {count} problems',
+    progressCommitTemplate: elements.progressCommitInput.value.trim() || '📊 Update progress files',
+  };
+}
+
+function scheduleCommitMessagePreview(): void {
+  if (commitMessagePreviewTimeout) {
+    clearTimeout(commitMessagePreviewTimeout);
+  }
+  commitMessagePreviewTimeout = setTimeout(previewCommitMessages, 300);
+}
+
+async function previewCommitMessages(): Promise<boolean> {
+  try {
+    const result = await sendMessageWithTimeout<{ success: boolean; errors: string[]; samples: string[] }>({
+      type: 'NEETSYNC_PREVIEW_COMMIT_MESSAGES',
+      payload: readCommitTemplates(),
+    });
+    
+    elements.commitMessageErrors.textContent = result.errors.join(' • ');
+    elements.commitMessagePreview.innerHTML = result.samples
+      .map((sample) => `<li>${escapeHtml(sample)}</li>`)
+      .join('');
+    return result.success;
+  } catch (error) {
+    console.error('Failed to preview commit messages:', error);
+    elements.commitMessageErrors.textContent = 'Preview unavailable: ' + (error as Error).message;
+    return false;
+  }
+}
+
+function renderFailedItems(): void {
+  if (failedItems.length === 0) {
+    elements.failedList.innerHTML = '<div class="failed-empty">No failed items</div>';
+    return;
+  }
+  
+  elements.failedList.innerHTML = failedItems.map((entry) => {
+    const attempts = entry.item.history?.length || 0;
+    const failedAt = new Date(entry.failedAt).toLocaleString();
+    const syncedTo = Object.entries(entry.item.targets || {})
+      .filter(([, status]) => status.syncedAt)
+      .map(([id]) => targetLabel(id));
+    
+    return `
+      <div class="failed-item" data-id="${escapeHtml(entry.item.id)}">
+        <div class="failed-title">${escapeHtml(entry.item.title)} (${escapeHtml(entry.item.language)})</div>
+        <div class="failed-meta">Failed ${failedAt} • ${attempts} attempt${attempts === 1 ? '' : 's'}${syncedTo.length > 0 ? ` • already in ${escapeHtml(syncedTo.join(', '))}` : ''}</div>
+        <div class="failed-error">${escapeHtml(entry.lastError)}</div>
+        <input type="text" class="failed-path" value="${escapeHtml(entry.targetPath)}" title="Target path">
+        <div class="failed-actions">
+          <button type="button" class="btn secondary" data-action="retry">Retry</button>
+          <button type="button" class="btn secondary danger" data-action="discard">Discard</button>
+        </div>
+      </div>
+    `;
+  }).join('');
+}
+
+function escapeHtml(text: string): string {
+  const div = document.createElement('div');
+  div.textContent = text;
+  return div.innerHTML.replace(/"/g, '&quot;');
 }
 
 function setupEventListeners(): void {
   elements.saveBtn.addEventListener('click', saveSettings);
+  elements.providerSelect.addEventListener('change', updateFolderUI);
+  elements.chooseFolderBtn.addEventListener('click', chooseFolder);
+  elements.regrantFolderBtn.addEventListener('click', regrantFolder);
+  elements.orgModeSelect.addEventListener('change', updateTemplateVisibility);
+  elements.batchModeSelect.addEventListener('change', updateBatchVisibility);
+  elements.pathTemplateInput.addEventListener('input', schedulePreview);
+  elements.baseDirInput.addEventListener('input', () => {
+    if (elements.orgModeSelect.value === 'TEMPLATE') schedulePreview();
+  });
+  elements.importProgressBtn.addEventListener('click', importProgress);
+  elements.rebuildHistoryBtn.addEventListener('click', rebuildFromHistory);
   elements.exportDataBtn.addEventListener('click', exportData);
   elements.clearMappingBtn.addEventListener('click', clearMapping);
   elements.clearAllBtn.addEventListener('click', clearAllData);
+  elements.runDiagnosticsBtn.addEventListener('click', runDiagnostics);
+  elements.expiryNotifications.addEventListener('change', toggleExpiryNotifications);
+  elements.previewReorganizeBtn.addEventListener('click', previewReorganize);
+  elements.applyReorganizeBtn.addEventListener('click', applyReorganize);
+  elements.exportFailedBtn.addEventListener('click', exportFailedItems);
+  elements.failedList.addEventListener('click', handleFailedAction);
+  elements.addTargetBtn.addEventListener('click', addTarget);
+  elements.targetList.addEventListener('click', handleTargetAction);
+  elements.targetList.addEventListener('change', () => renderRules(readRules()));
+  elements.repoInput.addEventListener('change', () => renderRules(readRules()));
+  elements.addRuleBtn.addEventListener('click', addRule);
+  elements.ruleList.addEventListener('click', handleRuleAction);
+  elements.previewRoutingBtn.addEventListener('click', previewRouting);
+  for (const input of [elements.commitMessageInput, elements.batchCommitInput, elements.progressCommitInput]) {
+    input.addEventListener('input', scheduleCommitMessagePreview);
+  }
+}
+
+async function runDiagnostics(): Promise<void> {
+  elements.runDiagnosticsBtn.setAttribute('disabled', 'true');
+  
+  try {
+    const report = await sendMessageWithTimeout<{ checks: DiagnosticCheck[] }>(
+      { type: 'NEETSYNC_RUN_DIAGNOSTICS' },
+      30000
+    );
+    
+    const icons = { ok: '✅', warn: '⚠️', fail: '❌' };
+    elements.diagnosticsList.innerHTML = report.checks.map((check) => `
+      <li class="${check.status}">
+        <span>${icons[check.status]}</span>
+        <span class="check-label">${escapeHtml(check.label)}</span>
+        <span class="check-detail">${escapeHtml(check.detail)}</span>
+      </li>
+    `).join('');
+  } catch (error) {
+    console.error('Failed to run diagnostics:', error);
+    showStatus('Failed to run diagnostics: ' + (error as Error).message, true);
+  } finally {
+    elements.runDiagnosticsBtn.removeAttribute('disabled');
+  }
+}
+
+async function loadNotificationPermission(): Promise<void> {
+  elements.expiryNotifications.checked = await chrome.permissions.contains({ permissions: ['notifications'] });
+}
+
+/**
+ * Notifications are an optional permission, so the checkbox asks for it or gives it up
+ */
+async function toggleExpiryNotifications(): Promise<void> {
+  try {
+    if (elements.expiryNotifications.checked) {
+      elements.expiryNotifications.checked = await chrome.permissions.request({ permissions: ['notifications'] });
+    } else {
+      await chrome.permissions.remove({ permissions: ['notifications'] });
+    }
+  } catch (error) {
+    console.error('Failed to change notification permission:', error);
+    showStatus('Failed to change notification permission: ' + (error as Error).message, true);
+    await loadNotificationPermission();
+  }
+}
+
+function renderReorganizePlan(plan: ReorganizePlan): void {
+  const lines = [
+    ...plan.moves.map((move) => `<li>${escapeHtml(move.from)} → ${escapeHtml(move.to)}</li>`),
+    ...plan.deletes.map((deletion) => `<li class="delete">✗ ${escapeHtml(deletion.path)} (duplicate)</li>`),
+  ];
+  
+  if (lines.length === 0) {
+    lines.push('<li>Everything is already in place</li>');
+  }
+  if (plan.missing.length > 0) {
+    lines.push(`<li>${plan.missing.length} solved entries have no file in the repo</li>`);
+  }
+  
+  elements.reorganizePlan.innerHTML = lines.join('');
+}
+
+async function previewReorganize(): Promise<void> {
+  elements.previewReorganizeBtn.setAttribute('disabled', 'true');
+  elements.applyReorganizeBtn.setAttribute('disabled', 'true');
+  
+  try {
+    const result = await sendMessageWithTimeout<{ success: boolean; plan?: ReorganizePlan; error?: string }>(
+      { type: 'NEETSYNC_REORGANIZE_PLAN' },
+      30000
+    );
+    
+    if (!result.success || !result.plan) {
+      showStatus(result.error || 'Failed to plan reorganization', true);
+      return;
+    }
+    
+    renderReorganizePlan(result.plan);
+    previewedReorganizeHead = result.plan.headSha;
+    if (result.plan.moves.length > 0 || result.plan.deletes.length > 0) {
+      elements.applyReorganizeBtn.removeAttribute('disabled');
+    }
+  } catch (error) {
+    console.error('Failed to preview reorganization:', error);
+    showStatus('Failed to preview: ' + (error as Error).message, true);
+  } finally {
+    elements.previewReorganizeBtn.removeAttribute('disabled');
+  }
+}
+
+async function applyReorganize(): Promise<void> {
+  if (!confirm('Move and delete the files listed above in a single commit?')) {
+    return;
+  }
+  
+  elements.applyReorganizeBtn.setAttribute('disabled', 'true');
+  
+  try {
+    const result = await sendMessageWithTimeout<{ success: boolean; plan?: ReorganizePlan; error?: string }>(
+      { type: 'NEETSYNC_REORGANIZE_APPLY', payload: { headSha: previewedReorganizeHead } },
+      60000
+    );
+    
+    if (!result.success) {
+      showStatus(result.error || 'Reorganization failed', true);
+      elements.applyReorganizeBtn.removeAttribute('disabled');
+      return;
+    }
+    
+    elements.reorganizePlan.innerHTML = '';
+    showStatus('Repository reorganized!', false);
+  } catch (error) {
+    console.error('Failed to reorganize:', error);
+    showStatus('Failed to reorganize: ' + (error as Error).message, true);
+    elements.applyReorganizeBtn.removeAttribute('disabled');
+  }
+}
+
+async function handleFailedAction(event: Event): Promise<void> {
+  const button = (event.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+  const row = button?.closest<HTMLElement>('.failed-item');
+  if (!button || !row?.dataset.id) return;
+  
+  const id = row.dataset.id;
+  const action = button.dataset.action;
+  const entry = failedItems.find((candidate) => candidate.item.id === id);
+  if (!entry) return;
+  
+  if (action === 'discard' && !confirm(`Discard ${entry.item.title}? The code will be lost unless you export it first.`)) {
+    return;
+  }
+  
+  button.setAttribute('disabled', 'true');
+  
+  try {
+    if (action === 'retry') {
+      const pathInput = row.querySelector<HTMLInputElement>('.failed-path');
+      const path = pathInput?.value.trim();
+      
+      const result = await sendMessageWithTimeout<{ success: boolean; error?: string }>({
+        type: 'NEETSYNC_RETRY_FAILED',
+        payload: { id, path: path && path !== entry.targetPath ? path : undefined },
+      });
+      showStatus(result.success ? 'Item re-queued!' : result.error || 'Retry failed', !result.success);
+    } else {
+      const result = await sendMessageWithTimeout<{ success: boolean; error?: string }>({
+        type: 'NEETSYNC_DISCARD_FAILED',
+        payload: { id },
+      });
+      showStatus(result.success ? 'Item discarded' : result.error || 'Discard failed', !result.success);
+    }
+    
+    await loadState();
+  } catch (error) {
+    console.error('Failed item action failed:', error);
+    showStatus('Action failed: ' + (error as Error).message, true);
+    button.removeAttribute('disabled');
+  }
+}
+
+function exportFailedItems(): void {
+  if (failedItems.length === 0) {
+    showStatus('No failed items to export', true);
+    return;
+  }
+  
+  const blob = new Blob([JSON.stringify(failedItems, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `neetsync-failed-${new Date().toISOString().split('T')[0]}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+  
+  showStatus('Failed items exported!', false);
+}
+
+async function chooseFolder(): Promise<void> {
+  let handle: FileSystemDirectoryHandle;
+  try {
+    handle = await window.showDirectoryPicker({ id: 'neetsync', mode: 'readwrite' });
+  } catch (error) {
+    // Closing the picker isn't an error worth reporting
+    if ((error as Error).name !== 'AbortError') {
+      console.error('Failed to choose folder:', error);
+      showStatus('Failed to choose folder: ' + (error as Error).message, true);
+    }
+    return;
+  }
+  
+  try {
+    await saveFolderHandle(handle);
+    const result = await sendMessageWithTimeout<{ success: boolean; error?: string }>(
+      { type: 'NEETSYNC_FOLDER_GRANTED', payload: { changed: true } },
+      30000
+    );
+    showStatus(result.success ? `Syncing to ${handle.name}` : result.error || 'Failed to set up folder', !result.success);
+    await loadState();
+  } catch (error) {
+    console.error('Failed to save folder:', error);
+    showStatus('Failed to save folder: ' + (error as Error).message, true);
+  }
+}
+
+async function regrantFolder(): Promise<void> {
+  try {
+    const handle = await getFolderHandle();
+    if (!handle) {
+      await chooseFolder();
+      return;
+    }
+    
+    if ((await handle.requestPermission({ mode: 'readwrite' })) !== 'granted') {
+      showStatus('NeetSync needs access to the folder to sync', true);
+      return;
+    }
+    
+    await sendMessageWithTimeout({ type: 'NEETSYNC_FOLDER_GRANTED', payload: { changed: false } }, 30000);
+    showStatus('Folder access granted!', false);
+    await loadState();
+  } catch (error) {
+    console.error('Failed to grant folder access:', error);
+    showStatus('Failed to grant folder access: ' + (error as Error).message, true);
+  }
+}
+
+async function requestHostPermission(apiBaseUrl: string): Promise<boolean> {
+  let origin: string;
+  try {
+    origin = new URL(/^https?:\/\//.test(apiBaseUrl) ? apiBaseUrl : `https://${apiBaseUrl}`).origin;
+  } catch {
+    // Saving reports the invalid URL
+    return true;
+  }
+  
+  return chrome.permissions.request({ origins: [`${origin}/*`] });
 }
 
 async function saveSettings(): Promise<void> {
@@ -120,23 +841,63 @@ async function saveSettings(): Promise<void> {
     branch: elements.branchInput.value.trim() || 'main',
     baseDir: elements.baseDirInput.value.trim() || 'NeetSync',
     organizationMode: elements.orgModeSelect.value,
+    pathTemplate: elements.pathTemplateInput.value.trim(),
     includeDifficultyFolder: elements.includeDifficultyFolder.checked,
     includeListFolderWhenKnown: elements.includeListFolder.checked,
     filenameIncludeSlug: elements.filenameIncludeSlug.checked,
     includeHeader: elements.includeHeader.checked,
     overwrite: elements.overwrite.checked,
+    versioning: elements.versioningSelect.value,
+    createRepository: elements.createRepository.checked,
+    oauthClientId: elements.oauthClientIdInput.value.trim(),
+    provider: elements.providerSelect.value,
+    apiBaseUrl: elements.apiBaseUrlInput.value.trim(),
+    targets: readTargets(),
+    routingRules: readRules(),
+    syncMode: elements.syncModeSelect.value,
+    autoMerge: elements.autoMerge.checked,
+    batchMode: elements.batchModeSelect.value,
+    batchIntervalMinutes: Number(elements.batchIntervalInput.value) || 60,
+    batchDailyTime: elements.batchTimeInput.value || '21:00',
+    authorName: elements.authorNameInput.value.trim(),
+    authorEmail: elements.authorEmailInput.value.trim(),
+    ...readCommitTemplates(),
     debugMode: elements.debugMode.checked,
   };
   
+  // Ask for the GitLab or Enterprise host first, while the click still counts as a user gesture
+  const host = settings.provider === 'LOCAL'
+    ? ''
+    : settings.apiBaseUrl || (settings.provider === 'GITLAB' ? 'https://gitlab.com' : '');
+  if (host && !(await requestHostPermission(host))) {
+    showStatus('NeetSync needs access to your Git host to sync', true);
+    return;
+  }
+  
+  if (settings.organizationMode === 'TEMPLATE' && !(await previewTemplate())) {
+    showStatus('Fix the path template before saving', true);
+    return;
+  }
+  
+  if (!(await previewCommitMessages())) {
+    showStatus('Fix the commit message templates before saving', true);
+    return;
+  }
+  
   elements.saveBtn.setAttribute('disabled', 'true');
   elements.saveBtn.textContent = 'Saving...';
   
   try {
-    await sendMessageWithTimeout({
+    const result = await sendMessageWithTimeout<{ success: boolean; error?: string }>({
       type: 'NEETSYNC_SAVE_SETTINGS',
       payload: settings,
     });
     
+    if (!result.success) {
+      showStatus(result.error || 'Failed to save settings', true);
+      return;
+    }
+    
     showStatus('Settings saved!', false);
     await loadState();
   } catch (error) {
@@ -148,6 +909,62 @@ async function saveSettings(): Promise<void> {
   }
 }
 
+async function importProgress(): Promise<void> {
+  elements.importProgressBtn.setAttribute('disabled', 'true');
+  
+  try {
+    const result = await sendMessageWithTimeout<{
+      success: boolean;
+      imported?: number;
+      total?: number;
+      error?: string;
+    }>({ type: 'NEETSYNC_IMPORT_PROGRESS' }, 30000);
+    
+    if (!result.success) {
+      showStatus(result.error || 'Import failed', true);
+      return;
+    }
+    
+    showStatus(`Imported ${result.imported} entries (${result.total} solved in total)`, false);
+    await loadState();
+  } catch (error) {
+    console.error('Failed to import progress:', error);
+    showStatus('Failed to import progress: ' + (error as Error).message, true);
+  } finally {
+    elements.importProgressBtn.removeAttribute('disabled');
+  }
+}
+
+async function rebuildFromHistory(): Promise<void> {
+  if (!confirm('Replace your progress with what the commit history records? PROGRESS.json and PROGRESS.md will be rewritten.')) {
+    return;
+  }
+  
+  elements.rebuildHistoryBtn.setAttribute('disabled', 'true');
+  
+  try {
+    const result = await sendMessageWithTimeout<{
+      success: boolean;
+      solved?: number;
+      commits?: number;
+      error?: string;
+    }>({ type: 'NEETSYNC_REBUILD_FROM_HISTORY' }, 120000);
+    
+    if (!result.success) {
+      showStatus(result.error || 'Rebuild failed', true);
+      return;
+    }
+    
+    showStatus(`Rebuilt ${result.solved} solved problems from ${result.commits} commits`, false);
+    await loadState();
+  } catch (error) {
+    console.error('Failed to rebuild progress:', error);
+    showStatus('Failed to rebuild progress: ' + (error as Error).message, true);
+  } finally {
+    elements.rebuildHistoryBtn.removeAttribute('disabled');
+  }
+}
+
 async function exportData(): Promise<void> {
   try {
     // Get all storage data
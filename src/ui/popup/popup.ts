@@ -21,6 +21,7 @@ async function sendMessageWithTimeout<T>(message: unknown, timeoutMs = 5000): Pr
 
 interface PopupState {
   settings: {
+    provider: string;
     repoFullName: string;
     branch: string;
     baseDir: string;
@@ -38,6 +39,11 @@ interface PopupState {
   solvedCount: number;
   queueCount: number;
   lastSync: number | null;
+  nextBatchAt: number | null;
+  folder: { name: string; permission: PermissionState } | null;
+  tokenExpiresAt: number | null;
+  authMethod: 'pat' | 'device' | null;
+  deviceFlow: { userCode: string; verificationUri: string; expiresAt: number } | null;
   isProcessing: boolean;
   logs: Array<{
     id: string;
@@ -51,8 +57,16 @@ interface PopupState {
 // Elements
 const elements = {
   statusIndicator: document.getElementById('statusIndicator')!,
+  tokenWarning: document.getElementById('tokenWarning')!,
+  folderWarning: document.getElementById('folderWarning')!,
   tokenInput: document.getElementById('tokenInput') as HTMLInputElement,
   toggleToken: document.getElementById('toggleToken')!,
+  authMethodInfo: document.getElementById('authMethodInfo')!,
+  signInBtn: document.getElementById('signInBtn')!,
+  deviceFlowBox: document.getElementById('deviceFlowBox')!,
+  userCode: document.getElementById('userCode')!,
+  openVerificationBtn: document.getElementById('openVerificationBtn')!,
+  cancelDeviceFlowBtn: document.getElementById('cancelDeviceFlowBtn')!,
   repoInput: document.getElementById('repoInput') as HTMLInputElement,
   branchInput: document.getElementById('branchInput') as HTMLInputElement,
   baseDirInput: document.getElementById('baseDirInput') as HTMLInputElement,
@@ -70,9 +84,12 @@ const elements = {
   logsContainer: document.getElementById('logsContainer')!,
 };
 
+const TOKEN_EXPIRY_WARNING = 7 * 24 * 60 * 60000; // 7 days
+
 // State
 let currentState: PopupState | null = null;
 let tokenVisible = false;
+let deviceFlowTimer: ReturnType<typeof setInterval> | null = null;
 
 // Initialize
 document.addEventListener('DOMContentLoaded', () => {
@@ -94,15 +111,41 @@ async function loadState(): Promise<void> {
 function updateUI(): void {
   if (!currentState) return;
   
+  const isLocal = currentState.settings.provider === 'LOCAL';
+  const folderGranted = currentState.folder?.permission === 'granted';
+  
   // Update status indicator
   if (currentState.isProcessing) {
     elements.statusIndicator.className = 'status-indicator processing';
-  } else if (currentState.hasToken && currentState.settings.repoFullName) {
+  } else if (isLocal ? folderGranted : currentState.hasToken && currentState.settings.repoFullName) {
     elements.statusIndicator.className = 'status-indicator connected';
   } else {
     elements.statusIndicator.className = 'status-indicator';
   }
   
+  // Warn a week ahead of the token expiring
+  const expiresAt = currentState.tokenExpiresAt;
+  if (expiresAt && expiresAt - Date.now() <= TOKEN_EXPIRY_WARNING) {
+    elements.tokenWarning.textContent = expiresAt <= Date.now()
+      ? 'Your GitHub token has expired. Save a new one to keep syncing.'
+      : `Your GitHub token expires on ${new Date(expiresAt).toLocaleDateString()}. Save a new one to keep syncing.`;
+    elements.tokenWarning.hidden = false;
+  } else {
+    elements.tokenWarning.hidden = true;
+  }
+  
+  // Only the options page can ask for folder access again
+  if (isLocal && !folderGranted) {
+    elements.folderWarning.textContent = currentState.folder
+      ? `Access to ${currentState.folder.name} has lapsed; solutions are queued until you grant it again in Options.`
+      : 'Choose a local folder in Options to start syncing.';
+    elements.folderWarning.hidden = false;
+  } else {
+    elements.folderWarning.hidden = true;
+  }
+  
+  renderDeviceFlow();
+  
   // Update form fields (don't update token)
   elements.repoInput.value = currentState.settings.repoFullName || '';
   elements.branchInput.value = currentState.settings.branch || 'main';
@@ -121,11 +164,38 @@ function updateUI(): void {
   } else {
     elements.lastSyncInfo.textContent = 'Never synced';
   }
+  if (currentState.nextBatchAt && currentState.queueCount > 0) {
+    const nextBatch = new Date(currentState.nextBatchAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    elements.lastSyncInfo.textContent += ` • next batch at ${nextBatch}`;
+  }
   
   // Update logs
   renderLogs();
 }
 
+function renderDeviceFlow(): void {
+  if (!currentState) return;
+  
+  const flow = currentState.deviceFlow;
+  elements.deviceFlowBox.hidden = !flow;
+  elements.signInBtn.hidden = !!flow;
+  elements.userCode.textContent = flow?.userCode || '';
+  elements.authMethodInfo.textContent = currentState.authMethod === 'device'
+    ? '✓ Signed in with GitHub'
+    : currentState.authMethod === 'pat' ? '✓ Token saved' : '';
+  
+  // Keep checking while the user approves the sign-in on GitHub
+  if (flow && !deviceFlowTimer) {
+    deviceFlowTimer = setInterval(loadState, 3000);
+  } else if (!flow && deviceFlowTimer) {
+    clearInterval(deviceFlowTimer);
+    deviceFlowTimer = null;
+    if (currentState.authMethod === 'device') {
+      showToast('Signed in with GitHub', 'success');
+    }
+  }
+}
+
 function renderLogs(): void {
   if (!currentState || currentState.logs.length === 0) {
     elements.logsContainer.innerHTML = '<div class="log-empty">No activity yet</div>';
@@ -188,6 +258,15 @@ function setupEventListeners(): void {
     elements.toggleToken.textContent = tokenVisible ? '🙈' : '👁️';
   });
   
+  // Device flow sign-in
+  elements.signInBtn.addEventListener('click', startSignIn);
+  elements.openVerificationBtn.addEventListener('click', () => {
+    if (currentState?.deviceFlow) {
+      chrome.tabs.create({ url: currentState.deviceFlow.verificationUri });
+    }
+  });
+  elements.cancelDeviceFlowBtn.addEventListener('click', cancelSignIn);
+  
   // Save settings
   elements.saveSettingsBtn.addEventListener('click', saveSettings);
   
@@ -196,9 +275,45 @@ function setupEventListeners(): void {
   elements.syncProgressBtn.addEventListener('click', syncProgress);
   elements.processQueueBtn.addEventListener('click', processQueue);
   elements.optionsBtn.addEventListener('click', openOptions);
+  elements.folderWarning.addEventListener('click', openOptions);
   elements.clearLogsBtn.addEventListener('click', clearLogs);
 }
 
+async function startSignIn(): Promise<void> {
+  elements.signInBtn.setAttribute('disabled', 'true');
+  
+  try {
+    const result = await sendMessageWithTimeout<{
+      success: boolean;
+      flow?: { userCode: string };
+      error?: string;
+    }>({ type: 'NEETSYNC_DEVICE_FLOW_START' }, 15000);
+    
+    if (!result.success || !result.flow) {
+      showToast(result.error || 'Failed to start sign-in', 'error');
+      return;
+    }
+    
+    // Copy the code so it can be pasted straight into GitHub
+    await navigator.clipboard.writeText(result.flow.userCode).catch(() => undefined);
+    showToast('Code copied, enter it on GitHub', 'success');
+    await loadState();
+  } catch (error) {
+    showToast('Failed to start sign-in: ' + (error as Error).message, 'error');
+  } finally {
+    elements.signInBtn.removeAttribute('disabled');
+  }
+}
+
+async function cancelSignIn(): Promise<void> {
+  try {
+    await sendMessageWithTimeout({ type: 'NEETSYNC_DEVICE_FLOW_CANCEL' });
+    await loadState();
+  } catch (error) {
+    showToast('Failed to cancel sign-in: ' + (error as Error).message, 'error');
+  }
+}
+
 async function saveSettings(): Promise<void> {
   const token = elements.tokenInput.value.trim();
   const repoFullName = elements.repoInput.value.trim();
@@ -206,12 +321,15 @@ async function saveSettings(): Promise<void> {
   const baseDir = elements.baseDirInput.value.trim() || 'NeetSync';
   const organizationMode = elements.orgModeSelect.value;
   
-  if (!repoFullName) {
+  // A local folder is chosen in Options; there's no repository to check
+  const isLocal = currentState?.settings.provider === 'LOCAL';
+  
+  if (!repoFullName && !isLocal) {
     showToast('Please enter a repository', 'error');
     return;
   }
   
-  if (!repoFullName.includes('/')) {
+  if (repoFullName && !repoFullName.includes('/')) {
     showToast('Repository must be in format owner/repo', 'error');
     return;
   }
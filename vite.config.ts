@@ -88,13 +88,13 @@ export default defineConfig({
           resolve(distDir, 'popup.css')
         );
         
-        // Copy and transform options.html
+        // Copy and transform options.html; it stays a module script because it
+        // shares the local folder helpers with the background chunk
         let optionsHtml = readFileSync(resolve(__dirname, 'src/ui/options/options.html'), 'utf-8');
         optionsHtml = optionsHtml
           .replace('href="options.css"', 'href="options.css"')
           .replace('src="options.ts"', 'src="options.js"')
-          .replace('src="../../icons/icon48.png"', 'src="icons/icon48.png"')
-          .replace('type="module"', '');
+          .replace('src="../../icons/icon48.png"', 'src="icons/icon48.png"');
         writeFileSync(resolve(distDir, 'options.html'), optionsHtml);
         
         // Copy options.css